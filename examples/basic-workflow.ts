@@ -82,19 +82,19 @@ const orderProcessingWorkflow: WorkflowSpec = {
     {
       id: 'process-payment',
       function: 'processPayment',
-      params: { userId: 'user_123', amount: 99.99 },
+      params: { userId: { $ref: 'validate-user.result.userId' }, amount: 99.99 },
       dependsOn: ['validate-user', 'validate-order']
     },
     {
       id: 'reserve-inventory',
       function: 'reserveInventory',
-      params: { orderId: 'order_123', items: ['item1', 'item2'] },
+      params: { orderId: '${stages.validate-order.result.orderId}', items: ['item1', 'item2'] },
       dependsOn: ['validate-order']
     },
     {
       id: 'send-confirmation',
       function: 'sendConfirmation',
-      params: { userId: 'user_123', transactionId: 'txn_123' },
+      params: { userId: 'user_123', transactionId: { $ref: 'process-payment.result.transactionId' } },
       dependsOn: ['process-payment']
     },
     {
@@ -128,7 +128,7 @@ export async function runTest() {
     await xflow.initialize();
     
     console.log('🔧 Starting workers...');
-    await xflow.startWorkers();
+    await xflow.start(); // Orchestration worker and stage workers in this process
     
     // Execute the workflow
     console.log('🎯 Executing workflow...');
@@ -256,6 +256,20 @@ export class ConnectionManager {
     }
   }
 
+  /**
+   * Temporal namespace used by clients and workers
+   */
+  getNamespace(): string {
+    return this.config.namespace ?? 'default';
+  }
+
+  /**
+   * Prefix of task queues and workflow IDs, shared by clients and workers
+   */
+  getTaskQueuePrefix(): string {
+    return this.config.taskQueuePrefix ?? 'xflow';
+  }
+
   /**
    * Close the connection
    */
@@ -274,6 +288,7 @@ export class ConnectionManager {
     return {
       connected: !!this.connection,
       address: this.config.temporalAddress,
+      namespace: this.getNamespace(),
       useSSL: this.config.useSSL,
       hasJWT: !!this.jwtInfo,
       jwtSource: this.jwtInfo?.source,
@@ -0,0 +1,868 @@
+// Distributed orchestration workflow for XFlow SDK
+// Runs inside the Temporal workflow sandbox on the orchestration worker
+//
+// NOTE: workflow code must be deterministic. Everything it needs (including
+// function routing) arrives in the workflow input - never import the registry
+// or other process-global state here.
+
+import {
+  proxyActivities,
+  proxyLocalActivities,
+  defineQuery,
+  defineSignal,
+  setHandler,
+  condition,
+  sleep,
+  executeChild,
+  workflowInfo,
+  CancellationScope,
+  isCancellation,
+  ActivityOptions,
+  ActivityFailure,
+  ApplicationFailure,
+  ChildWorkflowFailure
+} from '@temporalio/workflow';
+import {
+  WorkflowStage,
+  WorkflowExecutionStage,
+  StageStatus,
+  StageCompensation,
+  StageCompensationResult,
+  WorkflowFailureMode,
+  XFlowExecutionOptions
+} from '../types/index';
+import {
+  InternalWorkflowInput,
+  InternalWorkflowOutput,
+  InternalStageResult,
+  FunctionRoute,
+  ActivityExecutionContext,
+  WorkflowHookEvent
+} from '../types/internal';
+import type { workflowHookActivities } from './workflow-hooks';
+import { resolveParams, resolveValue, ReferenceScope } from './param-resolver';
+import { evaluateCondition } from './stage-conditions';
+import { VALIDATION_ERROR_TYPE } from './errors';
+import { getPoolLabel } from './worker-pools';
+
+type Duration = NonNullable<ActivityOptions['startToCloseTimeout']>;
+
+/**
+ * Query returning the live state of every stage in the workflow
+ */
+export const progressQuery = defineQuery<WorkflowExecutionStage[]>('xflowProgress');
+
+// Workflow hooks run next to the orchestration workflow; a failing hook is not retried
+const { runWorkflowHooks } = proxyLocalActivities<typeof workflowHookActivities>({
+  startToCloseTimeout: '1 minute',
+  retry: { maximumAttempts: 1 }
+});
+
+/**
+ * Distributed workflow implementation for Temporal
+ */
+export async function executeDistributedWorkflow(input: InternalWorkflowInput): Promise<InternalWorkflowOutput> {
+  const { spec, routes } = input;
+  const workflowId = getXFlowWorkflowId(input);
+  const failureMode: WorkflowFailureMode = spec.failureMode ?? 'failFast';
+  const workflowStartTime = new Date();
+  const results: InternalStageResult[] = [];
+  const finishedStages = new Set<string>(); // Completed, skipped, failed or blocked
+  const skippedStages = new Set<string>();
+  const failedStages = new Set<string>(); // Failures that block descendants
+  const toleratedFailures = new Set<string>(); // Failures of continueOnError stages
+  const scope: ReferenceScope = { stages: {}, locals: { input: input.input ?? {} } };
+  
+  // Live per-stage state, exposed through progressQuery
+  const progress = new Map<string, WorkflowExecutionStage>();
+  spec.stages.forEach((stage: WorkflowStage) => progress.set(stage.id, { ...stage, status: StageStatus.PENDING }));
+  setHandler(progressQuery, () => spec.stages.map((stage: WorkflowStage) => progress.get(stage.id)!));
+  
+  const recordResult = (result: InternalStageResult) => {
+    results.push(result);
+    progress.set(result.stageId, {
+      ...progress.get(result.stageId)!,
+      status: toStageStatus(result.status),
+      startTime: result.startTime,
+      endTime: result.endTime,
+      result: result.result,
+      error: result.error,
+      skipReason: result.skipReason,
+      executedBy: result.executedBy
+    });
+  };
+  
+  // Signal payloads received so far, keyed by signal name. Handlers are registered
+  // up front so a signal sent before its stage starts waiting is not lost.
+  const signalPayloads = new Map<string, any>();
+  const signalNames = new Set<string>(
+    spec.stages.filter((stage: WorkflowStage) => stage.signal).map((stage: WorkflowStage) => stage.signal!.name)
+  );
+  signalNames.forEach(name => {
+    setHandler(defineSignal<[any]>(name), (payload: any) => {
+      if (!signalPayloads.has(name)) {
+        signalPayloads.set(name, payload);
+      }
+    });
+  });
+  
+  const context: StageRunContext = {
+    workflowId,
+    taskQueuePrefix: input.taskQueuePrefix,
+    hooksKey: input.hooksKey,
+    routes,
+    scope,
+    signalPayloads,
+    stageParams: new Map(),
+    mapItems: new Map()
+  };
+  const stagesById = new Map<string, WorkflowStage>(spec.stages.map((stage: WorkflowStage) => [stage.id, stage]));
+  
+  // The orchestration worker answers the start event with whether the run has
+  // hooks; without any, the other events are not reported
+  let hasHooks = true;
+  const emitHook = async (hook: WorkflowHookEvent['hook'], details: Omit<WorkflowHookEvent, 'hook' | 'workflowId' | 'workflowName'>) => {
+    if (hasHooks) {
+      hasHooks = await notifyWorkflowHooks({
+        hook,
+        workflowId,
+        workflowName: spec.name,
+        workflowVersion: spec.version,
+        hooksKey: input.hooksKey,
+        ...details
+      });
+    }
+  };
+  const startedStages = new Set<string>();
+  
+  console.log(`Starting distributed workflow execution: ${workflowId} - ${spec.name}`);
+  await emitHook('onWorkflowStart', { startTime: workflowStartTime });
+  
+  // Stages run in their own scope so the deadline can cut them off while
+  // compensations still run afterwards
+  const stagesScope = new CancellationScope();
+  const deadlineScope = new CancellationScope();
+  let deadlineExceeded = false;
+  const deadline = input.deadlineAt !== undefined
+    ? Math.max(input.deadlineAt - Date.now(), 0)
+    : input.deadline ?? spec.deadline;
+  if (deadline !== undefined) {
+    deadlineScope.run(() => sleep(deadline as Duration)).then(() => {
+      console.log(`Workflow ${workflowId} passed its deadline, cancelling running stages`);
+      deadlineExceeded = true;
+      stagesScope.cancel();
+    }, (error: unknown) => {
+      // The timer is cancelled when the stages finish first
+      if (!isCancellation(error)) {
+        throw error;
+      }
+    });
+  }
+  
+  while (finishedStages.size < spec.stages.length) {
+    const readyStages = spec.stages.filter((stage: WorkflowStage) => {
+      if (finishedStages.has(stage.id)) return false;
+      return (stage.dependsOn || []).every((depId: string) => finishedStages.has(depId));
+    });
+    
+    if (readyStages.length === 0) {
+      throw new Error('Circular dependency detected or no stages ready to execute');
+    }
+    
+    const stagePromises = readyStages.map((stage: WorkflowStage) => stagesScope.run(async (): Promise<InternalStageResult> => {
+      const startTime = new Date();
+      const dependsOn = stage.dependsOn || [];
+      
+      // Only true descendants of a failed stage are blocked
+      const failedDependency = dependsOn.find(depId => failedStages.has(depId));
+      if (failedDependency) {
+        return notExecutedResult(stage.id, `Dependency stage '${failedDependency}' failed`);
+      }
+      
+      // A skipped stage skips everything downstream of it
+      const skippedDependency = dependsOn.find(depId => skippedStages.has(depId));
+      if (skippedDependency) {
+        return skippedResult(stage.id, `Dependency stage '${skippedDependency}' was skipped`);
+      }
+      
+      try {
+        if (stage.when !== undefined && !evaluateCondition(stage.when, scope, dependsOn)) {
+          console.log(`Skipping stage: ${stage.id} - condition not met`);
+          return skippedResult(stage.id, 'Condition not met');
+        }
+        
+        progress.set(stage.id, { ...progress.get(stage.id)!, status: StageStatus.IN_PROGRESS, startTime });
+        startedStages.add(stage.id);
+        await emitHook('onStageStart', { stageId: stage.id, startTime });
+        
+        const { result, executedBy, childResults, error } = await runStage(stage, dependsOn, context);
+        const endTime = new Date();
+        
+        if (error) {
+          console.error(`Stage ${stage.id} failed:`, error);
+          return { stageId: stage.id, status: 'FAILED', error, startTime, endTime, executedBy, childResults };
+        }
+        
+        console.log(`Stage ${stage.id} completed successfully on ${executedBy}`);
+        
+        return {
+          stageId: stage.id,
+          status: 'COMPLETED',
+          result,
+          startTime,
+          endTime,
+          executedBy,
+          childResults
+        };
+      } catch (error: any) {
+        const endTime = new Date();
+        
+        if (deadlineExceeded) {
+          console.log(`Stage ${stage.id} was cut off by the workflow deadline`);
+          return { ...cutOffResult(stage.id, 'Cut off by the workflow deadline'), startTime, endTime };
+        }
+        
+        console.error(`Stage ${stage.id} failed:`, error);
+        
+        return {
+          stageId: stage.id,
+          status: 'FAILED',
+          error: describeStageError(error),
+          startTime,
+          endTime,
+          executedBy: 'unknown'
+        };
+      }
+    }).then(async (result: InternalStageResult) => {
+      if (startedStages.has(result.stageId)) {
+        await emitHook('onStageComplete', {
+          stageId: result.stageId,
+          startTime: result.startTime,
+          endTime: result.endTime,
+          status: toStageStatus(result.status),
+          error: result.error,
+          result: result.result
+        });
+      }
+      return result;
+    }));
+    
+    const stageResults = await Promise.all(stagePromises);
+    
+    stageResults.forEach(result => {
+      recordResult(result);
+      finishedStages.add(result.stageId);
+      
+      if (result.status === 'COMPLETED') {
+        scope.stages[result.stageId] = { result: result.result };
+      } else if (result.status === 'SKIPPED') {
+        skippedStages.add(result.stageId);
+      } else if (stagesById.get(result.stageId)!.continueOnError && result.executedBy !== 'none') {
+        // Dependents still run; references to this stage's result will fail.
+        // A stage blocked by a failed dependency is not tolerated: it never ran.
+        toleratedFailures.add(result.stageId);
+      } else {
+        failedStages.add(result.stageId);
+      }
+    });
+    
+    if (deadlineExceeded) {
+      spec.stages
+        .filter((stage: WorkflowStage) => !finishedStages.has(stage.id))
+        .forEach((stage: WorkflowStage) => recordResult(cutOffResult(stage.id, 'Not started before the workflow deadline')));
+      break;
+    }
+    
+    const newFailures = stageResults.filter(r => failedStages.has(r.stageId));
+    if (failureMode === 'failFast' && newFailures.length > 0) {
+      console.error(`Workflow ${workflowId} failed due to stage failures:`, newFailures);
+      const remainingStages = spec.stages.filter((stage: WorkflowStage) => !finishedStages.has(stage.id));
+      remainingStages.forEach((stage: WorkflowStage) => {
+        recordResult(notExecutedResult(stage.id, `Not executed: workflow stopped after stage '${newFailures[0].stageId}' failed`));
+      });
+      break;
+    }
+  }
+  
+  deadlineScope.cancel();
+  const status = deadlineExceeded ? 'FAILED' : getWorkflowStatus(results, toleratedFailures, failureMode);
+  
+  // Undo the work of completed stages if the workflow failed. Compensations must
+  // run even when the failure was caused by the workflow being cancelled.
+  let compensations: StageCompensationResult[] = [];
+  if (status === 'FAILED') {
+    compensations = await CancellationScope.nonCancellable(() => runCompensations(spec, results, context));
+  }
+  
+  const workflowEndTime = new Date();
+  console.log(`Distributed workflow ${workflowId} execution completed with status ${status}`);
+  await emitHook(status === 'FAILED' ? 'onWorkflowFail' : 'onWorkflowComplete', {
+    startTime: workflowStartTime,
+    endTime: workflowEndTime,
+    status,
+    error: deadlineExceeded
+      ? 'Workflow deadline exceeded'
+      : status === 'COMPLETED' ? undefined : 'One or more stages failed'
+  });
+  
+  return {
+    workflowId,
+    spec,
+    status,
+    deadlineExceeded,
+    results,
+    compensations,
+    startTime: workflowStartTime,
+    endTime: workflowEndTime
+  };
+}
+
+/**
+ * Get the XFlow ID of this run by stripping the prefix from its Temporal workflow ID
+ * Runs started by a schedule all carry the schedule's ID in their input; only
+ * the Temporal ID (the schedule's ID followed by the start time) tells them apart.
+ */
+function getXFlowWorkflowId(input: InternalWorkflowInput): string {
+  if (input.taskQueuePrefix === undefined) {
+    return input.workflowId; // Started by a client that did not send the prefix
+  }
+
+  const temporalWorkflowId = workflowInfo().workflowId;
+  const prefix = `${input.taskQueuePrefix}-`;
+  return temporalWorkflowId.startsWith(prefix) ? temporalWorkflowId.slice(prefix.length) : input.workflowId;
+}
+
+/**
+ * Everything a stage may need besides its own definition
+ */
+interface StageRunContext {
+  workflowId: string;
+  taskQueuePrefix?: string;
+  hooksKey?: string;
+  routes: Record<string, FunctionRoute>;
+  scope: ReferenceScope;
+  signalPayloads: Map<string, any>;
+  /** Resolved params of function stages, kept for their compensations */
+  stageParams: Map<string, any>;
+  /** Items of map stages that succeeded, kept for their compensations even when the stage failed */
+  mapItems: Map<string, CompletedMapItem[]>;
+}
+
+/**
+ * A map item whose call succeeded
+ */
+interface CompletedMapItem {
+  index: number;
+  item: any;
+  params: Record<string, any>;
+  result: any;
+}
+
+/**
+ * What running a stage produced
+ * Stages usually throw on failure; child workflows report it in `error` so
+ * the child's stage results are kept.
+ */
+interface StageOutcome {
+  result?: any;
+  executedBy: string;
+  childResults?: InternalStageResult[];
+  error?: string;
+}
+
+/**
+ * Run a single stage according to its type
+ */
+async function runStage(
+  stage: WorkflowStage,
+  dependsOn: string[],
+  context: StageRunContext
+): Promise<StageOutcome> {
+  switch (stage.type ?? 'function') {
+    case 'waitForSignal':
+      return waitForSignal(stage, context.signalPayloads);
+    case 'map':
+      return runMapStage(stage, dependsOn, context);
+    case 'workflow':
+      return runChildWorkflowStage(stage, dependsOn, context);
+    case 'timer':
+      return runTimerStage(stage, dependsOn, context);
+    default:
+      return runFunctionStage(stage, dependsOn, context);
+  }
+}
+
+/**
+ * Run a function stage on the worker tier its function is routed to
+ */
+async function runFunctionStage(
+  stage: WorkflowStage,
+  dependsOn: string[],
+  context: StageRunContext
+): Promise<StageOutcome> {
+  console.log(`Executing stage: ${stage.id} - ${stage.function}`);
+  
+  const route = context.routes[stage.function!];
+  if (!route) {
+    throw new Error(`No route for function '${stage.function}' in workflow input`);
+  }
+  
+  const params = resolveParams(stage.params ?? {}, context.scope, dependsOn);
+  context.stageParams.set(stage.id, params);
+  const result = await executeOnWorkerStage(route, stage, params, { workflowId: context.workflowId, stageId: stage.id });
+  
+  return { result, executedBy: getPoolLabel(route.stage) };
+}
+
+/**
+ * Run a map stage: call the stage's function once per item, at most
+ * `maxConcurrency` at a time, and collect the results in item order
+ * Once more than `maxFailures` items have failed no new items are started.
+ */
+async function runMapStage(
+  stage: WorkflowStage,
+  dependsOn: string[],
+  context: StageRunContext
+): Promise<StageOutcome> {
+  const map = stage.map!;
+  const route = context.routes[stage.function!];
+  if (!route) {
+    throw new Error(`No route for function '${stage.function}' in workflow input`);
+  }
+  
+  const items = resolveValue(map.items, context.scope, dependsOn, 'map.items');
+  if (!Array.isArray(items)) {
+    throw new Error(`Map stage items must resolve to an array, got ${items === null ? 'null' : typeof items}`);
+  }
+  
+  console.log(`Executing map stage: ${stage.id} - ${stage.function} over ${items.length} items`);
+  
+  const itemParams = items.map((item, index) =>
+    resolveParams(map.params, { ...context.scope, locals: { ...context.scope.locals, item, index } }, dependsOn)
+  );
+  const completedItems: CompletedMapItem[] = [];
+  context.mapItems.set(stage.id, completedItems);
+  
+  const maxFailures = map.maxFailures ?? 0;
+  const results: any[] = items.map(() => null);
+  const failures: Array<{ index: number; error: string }> = [];
+  let nextIndex = 0;
+  
+  const runItems = async (): Promise<void> => {
+    while (nextIndex < items.length && failures.length <= maxFailures) {
+      const index = nextIndex++;
+      try {
+        results[index] = await executeOnWorkerStage(route, stage, itemParams[index], {
+          workflowId: context.workflowId,
+          stageId: stage.id
+        });
+        completedItems.push({ index, item: items[index], params: itemParams[index], result: results[index] });
+      } catch (error: any) {
+        failures.push({ index, error: describeStageError(error) });
+      }
+    }
+  };
+  
+  const lanes = Math.min(map.maxConcurrency ?? items.length, items.length);
+  await Promise.all(Array.from({ length: lanes }, () => runItems()));
+  
+  if (failures.length > 0) {
+    const details = failures
+      .sort((a, b) => a.index - b.index)
+      .map(failure => `item ${failure.index}: ${failure.error}`)
+      .join('; ');
+    
+    if (failures.length > maxFailures) {
+      throw new Error(`${failures.length} item(s) failed, at most ${maxFailures} allowed - ${details}`);
+    }
+    console.log(`Map stage ${stage.id} tolerated ${failures.length} failed item(s) - ${details}`);
+  }
+  
+  return { result: results, executedBy: getPoolLabel(route.stage) };
+}
+
+/**
+ * Run the stage's workflow spec as a Temporal child workflow
+ * The stage params become the child's input. The child's workflow ID is the
+ * parent's followed by the stage ID, and cancelling the parent cancels the
+ * child. The stage fails when the child fails.
+ */
+async function runChildWorkflowStage(
+  stage: WorkflowStage,
+  dependsOn: string[],
+  context: StageRunContext
+): Promise<StageOutcome> {
+  // Named specs are inlined by the client before the workflow starts
+  const childSpec = stage.workflow;
+  if (!childSpec || typeof childSpec === 'string') {
+    throw new Error(`Workflow '${childSpec}' was not resolved before the workflow started`);
+  }
+  
+  console.log(`Executing stage: ${stage.id} - child workflow ${childSpec.name}`);
+  
+  const output = await executeChild(executeDistributedWorkflow, {
+    workflowExecutionTimeout: childSpec.executionTimeout as Duration | undefined,
+    workflowRunTimeout: childSpec.runTimeout as Duration | undefined,
+    args: [{
+      workflowId: `${context.workflowId}-${stage.id}`,
+      taskQueuePrefix: context.taskQueuePrefix,
+      // Same as getChildHooksKey(), which lives outside the workflow sandbox
+      hooksKey: context.hooksKey !== undefined ? `${context.hooksKey}/${stage.id}` : undefined,
+      spec: childSpec,
+      routes: context.routes,
+      input: resolveParams(stage.params ?? {}, context.scope, dependsOn)
+    }],
+    workflowId: `${workflowInfo().workflowId}-${stage.id}`
+  });
+  
+  const result: Record<string, any> = {};
+  output.results
+    .filter(childResult => childResult.status === 'COMPLETED')
+    .forEach(childResult => { result[childResult.stageId] = childResult.result; });
+  
+  if (output.status === 'FAILED') {
+    const failures = output.results
+      .filter(childResult => childResult.status === 'FAILED' && childResult.executedBy !== 'none')
+      .map(childResult => `${childResult.stageId}: ${childResult.error}`);
+    return {
+      executedBy: 'child-workflow',
+      childResults: output.results,
+      error: `Child workflow '${childSpec.name}' failed - ${failures.join('; ')}`
+    };
+  }
+  
+  return { result, executedBy: 'child-workflow', childResults: output.results };
+}
+
+/**
+ * Wait on a Temporal timer for a duration or until a point in time
+ * The wait survives worker restarts and does not hold an activity slot.
+ */
+async function runTimerStage(
+  stage: WorkflowStage,
+  dependsOn: string[],
+  context: StageRunContext
+): Promise<StageOutcome> {
+  const timer = stage.timer!;
+  const startedAt = Date.now();
+  
+  if (timer.duration) {
+    console.log(`Stage ${stage.id} waiting ${timer.duration}`);
+    await sleep(timer.duration as Duration);
+  } else {
+    const until = resolveValue(timer.until, context.scope, dependsOn, 'timer.until');
+    const untilTime = typeof until === 'number' ? until : Date.parse(until);
+    if (Number.isNaN(untilTime)) {
+      throw new Error(`Timer 'until' must be a timestamp, got ${JSON.stringify(until)}`);
+    }
+    
+    const delay = untilTime - startedAt;
+    console.log(`Stage ${stage.id} waiting until ${new Date(untilTime).toISOString()}`);
+    if (delay > 0) {
+      await sleep(delay);
+    }
+  }
+  
+  const firedAt = new Date();
+  return { result: { firedAt: firedAt.toISOString(), waitedMs: firedAt.getTime() - startedAt }, executedBy: 'timer' };
+}
+
+/**
+ * Pause until the stage's signal arrives; its payload becomes the stage result
+ */
+async function waitForSignal(
+  stage: WorkflowStage,
+  signalPayloads: Map<string, any>
+): Promise<StageOutcome> {
+  const signal = stage.signal!;
+  console.log(`Stage ${stage.id} waiting for signal '${signal.name}'`);
+  
+  if (signal.timeout) {
+    const received = await condition(() => signalPayloads.has(signal.name), signal.timeout as Duration);
+    if (!received) {
+      if ('defaultPayload' in signal) {
+        console.log(`Stage ${stage.id} timed out waiting for '${signal.name}', using default payload`);
+        return { result: signal.defaultPayload, executedBy: 'signal-timeout' };
+      }
+      throw new Error(`Timed out after ${signal.timeout} waiting for signal '${signal.name}'`);
+    }
+  } else {
+    await condition(() => signalPayloads.has(signal.name));
+  }
+  
+  return { result: signalPayloads.get(signal.name), executedBy: 'signal' };
+}
+
+/**
+ * Undo completed stages in reverse dependency order after the workflow failed
+ * Stages completed in dependency order, so walking the results backwards
+ * compensates dependents before the stages they depend on. Each successful
+ * item of a map stage is compensated on its own, also when the stage failed.
+ * A failing compensation is recorded and does not stop the remaining ones.
+ */
+async function runCompensations(
+  spec: any,
+  results: InternalStageResult[],
+  context: StageRunContext
+): Promise<StageCompensationResult[]> {
+  const stagesById = new Map<string, WorkflowStage>(spec.stages.map((stage: WorkflowStage) => [stage.id, stage]));
+  const compensations: StageCompensationResult[] = [];
+  const stagesToCompensate = results
+    .filter(result => result.status === 'COMPLETED' || (context.mapItems.get(result.stageId)?.length ?? 0) > 0)
+    .reverse();
+  
+  for (const stageResult of stagesToCompensate) {
+    const stage = stagesById.get(stageResult.stageId)!;
+    const compensation = getCompensation(stage, context.routes);
+    if (!compensation) {
+      continue;
+    }
+    
+    const compensationRefs = [...(stage.dependsOn || []), stage.id];
+    const mapItems = context.mapItems.get(stage.id);
+    
+    if (!mapItems) {
+      const params = () => (compensation.params !== undefined
+        ? resolveParams(compensation.params, context.scope, compensationRefs)
+        : { params: context.stageParams.get(stage.id), result: stageResult.result });
+      compensations.push(await runCompensation(stage.id, compensation.function, params, context));
+      continue;
+    }
+    
+    // Undo map items last to first; `<stage>.result`, `item` and `index` refer to the item
+    const itemsLastFirst = [...mapItems].sort((a, b) => b.index - a.index);
+    for (const mapItem of itemsLastFirst) {
+      const itemParams = () => (compensation.params !== undefined
+        ? resolveParams(compensation.params, {
+          stages: { ...context.scope.stages, [stage.id]: { result: mapItem.result } },
+          locals: { ...context.scope.locals, item: mapItem.item, index: mapItem.index }
+        }, compensationRefs)
+        : { params: mapItem.params, result: mapItem.result });
+      compensations.push(await runCompensation(stage.id, compensation.function, itemParams, context, mapItem.index));
+    }
+  }
+  
+  return compensations;
+}
+
+/**
+ * Run one compensation call and record its outcome
+ */
+async function runCompensation(
+  stageId: string,
+  functionName: string,
+  buildParams: () => Record<string, any>,
+  context: StageRunContext,
+  itemIndex?: number
+): Promise<StageCompensationResult> {
+  const startTime = new Date();
+  const target = itemIndex === undefined ? stageId : `${stageId} (item ${itemIndex})`;
+  console.log(`Compensating stage: ${target} - ${functionName}`);
+  
+  try {
+    const route = context.routes[functionName];
+    if (!route) {
+      throw new Error(`No route for compensation function '${functionName}' in workflow input`);
+    }
+    
+    const result = await executeOnWorkerStage(route, {}, buildParams(), { workflowId: context.workflowId, stageId });
+    return { stageId, itemIndex, function: functionName, status: 'COMPLETED', result, startTime, endTime: new Date() };
+  } catch (error: any) {
+    console.error(`Compensation for stage ${target} failed:`, error);
+    return {
+      stageId,
+      itemIndex,
+      function: functionName,
+      status: 'FAILED',
+      error: describeStageError(error),
+      startTime,
+      endTime: new Date()
+    };
+  }
+}
+
+/**
+ * Get the compensation for a stage: the stage override, else the function's default
+ */
+function getCompensation(stage: WorkflowStage, routes: Record<string, FunctionRoute>): StageCompensation | null {
+  if (stage.compensate === false) {
+    return null;
+  }
+  if (stage.compensate) {
+    return stage.compensate;
+  }
+  
+  const defaultFunction = stage.function ? routes[stage.function]?.compensate : undefined;
+  return defaultFunction ? { function: defaultFunction } : null;
+}
+
+/**
+ * Describe a stage failure using the error raised on the worker (or in the
+ * child workflow) rather than Temporal's generic wrapper
+ */
+function describeStageError(error: any): string {
+  const wrapped = error instanceof ActivityFailure || error instanceof ChildWorkflowFailure;
+  const cause = wrapped && error.cause ? error.cause : error;
+
+  if (cause instanceof ApplicationFailure && cause.type === VALIDATION_ERROR_TYPE) {
+    return `[${VALIDATION_ERROR_TYPE}] ${cause.message}`;
+  }
+
+  return cause.message ?? String(error);
+}
+
+/**
+ * Map an internal stage status onto the public StageStatus enum
+ */
+export function toStageStatus(status: InternalStageResult['status']): StageStatus {
+  switch (status) {
+    case 'COMPLETED':
+      return StageStatus.COMPLETED;
+    case 'SKIPPED':
+      return StageStatus.SKIPPED;
+    case 'CANCELLED':
+      return StageStatus.CANCELLED;
+    default:
+      return StageStatus.FAILED;
+  }
+}
+
+/**
+ * Decide the overall workflow status
+ * - COMPLETED: nothing failed
+ * - PARTIAL: only continueOnError stages failed, or failures were accepted by
+ *   the 'allowPartial' failure mode and at least one stage completed
+ * - FAILED: anything else
+ */
+function getWorkflowStatus(
+  results: InternalStageResult[],
+  toleratedFailures: Set<string>,
+  failureMode: WorkflowFailureMode
+): InternalWorkflowOutput['status'] {
+  const failures = results.filter(result => result.status === 'FAILED');
+  if (failures.length === 0) {
+    return 'COMPLETED';
+  }
+
+  const blockingFailures = failures.filter(result => !toleratedFailures.has(result.stageId));
+  if (blockingFailures.length === 0) {
+    return 'PARTIAL';
+  }
+
+  if (failureMode === 'allowPartial' && results.some(result => result.status === 'COMPLETED')) {
+    return 'PARTIAL';
+  }
+
+  return 'FAILED';
+}
+
+/**
+ * Build the result of a stage that could not run because of an earlier failure
+ */
+function notExecutedResult(stageId: string, reason: string): InternalStageResult {
+  const now = new Date();
+  return {
+    stageId,
+    status: 'FAILED',
+    error: reason,
+    startTime: now,
+    endTime: now,
+    executedBy: 'none'
+  };
+}
+
+/**
+ * Build the result of a stage stopped (or never started) because the workflow deadline passed
+ */
+function cutOffResult(stageId: string, reason: string): InternalStageResult {
+  const now = new Date();
+  return {
+    stageId,
+    status: 'CANCELLED',
+    error: reason,
+    startTime: now,
+    endTime: now,
+    executedBy: 'none'
+  };
+}
+
+/**
+ * Build the result of a stage that did not run
+ */
+function skippedResult(stageId: string, reason: string): InternalStageResult {
+  const now = new Date();
+  return {
+    stageId,
+    status: 'SKIPPED',
+    skipReason: reason,
+    startTime: now,
+    endTime: now,
+    executedBy: 'none'
+  };
+}
+
+/**
+ * Execute a function on the appropriate worker stage using Temporal's proxyActivities
+ * Stage-level timeout and retry settings take precedence over the function's own.
+ * The workflow and stage IDs go along so the worker can report them to function hooks.
+ */
+async function executeOnWorkerStage(
+  route: FunctionRoute,
+  overrides: XFlowExecutionOptions,
+  params: Record<string, any>,
+  execution: Pick<ActivityExecutionContext, 'workflowId' | 'stageId'>
+): Promise<any> {
+  const activities = proxyActivities<Record<string, any>>(buildActivityOptions(route, overrides));
+  
+  return await activities[route.executor](route.functionName, params, execution);
+}
+
+/**
+ * Report a lifecycle event to the workflow hooks of the orchestration worker
+ * Only the orchestration worker knows which hooks are registered; it answers
+ * whether the run has any. Hook failures are logged and never affect the workflow.
+ */
+async function notifyWorkflowHooks(event: WorkflowHookEvent): Promise<boolean> {
+  try {
+    // Also report events of stages cut off by the deadline
+    return await CancellationScope.nonCancellable(() => runWorkflowHooks(event));
+  } catch (error) {
+    console.warn(`Workflow hooks failed for ${event.hook} of ${event.workflowId}:`, error);
+    return true; // Keep reporting, the next event may get through
+  }
+}
+
+/**
+ * Translate XFlow timeout and retry settings into Temporal activity options
+ */
+function buildActivityOptions(route: FunctionRoute, overrides: XFlowExecutionOptions): ActivityOptions {
+  const timeout = overrides.timeout ?? route.timeout ?? '5 minutes';
+  const scheduleToCloseTimeout = overrides.scheduleToCloseTimeout ?? route.scheduleToCloseTimeout;
+  const heartbeatTimeout = overrides.heartbeatTimeout ?? route.heartbeatTimeout;
+  const retry = overrides.retry ?? route.retry;
+
+  const options: ActivityOptions = {
+    startToCloseTimeout: timeout as Duration,
+    taskQueue: route.taskQueue,
+  };
+
+  if (scheduleToCloseTimeout) {
+    options.scheduleToCloseTimeout = scheduleToCloseTimeout as Duration;
+  }
+
+  if (heartbeatTimeout) {
+    options.heartbeatTimeout = heartbeatTimeout as Duration;
+  }
+
+  if (retry) {
+    options.retry = {
+      maximumAttempts: retry.maxAttempts,
+      backoffCoefficient: retry.backoffCoefficient,
+      initialInterval: retry.initialInterval as Duration | undefined,
+      maximumInterval: retry.maxInterval as Duration | undefined,
+      nonRetryableErrorTypes: retry.nonRetryableErrors
+    };
+  }
+
+  return options;
+}
@@ -0,0 +1,44 @@
+// Error types for XFlow SDK
+// Errors that carry structured details callers may want to inspect
+
+import { WorkflowSpecIssue } from '../types/index';
+
+/**
+ * Failure type used when a function's input or output schema rejects a value
+ * Failures of this type are never retried
+ */
+export const VALIDATION_ERROR_TYPE = 'XFlowValidationError';
+
+/**
+ * Thrown when a workflow is started with an ID that is already taken and the
+ * ID conflict policy does not allow reusing it
+ */
+export class WorkflowIdConflictError extends Error {
+  readonly workflowId: string;
+
+  constructor(workflowId: string, policy: string) {
+    super(
+      policy === 'allowIfFailed'
+        ? `Workflow '${workflowId}' already exists and its latest run did not fail`
+        : `Workflow '${workflowId}' already exists`
+    );
+    this.name = 'WorkflowIdConflictError';
+    this.workflowId = workflowId;
+  }
+}
+
+/**
+ * Thrown when a workflow spec fails validation before it is sent to Temporal
+ */
+export class WorkflowValidationError extends Error {
+  readonly issues: WorkflowSpecIssue[];
+
+  constructor(specName: string | undefined, issues: WorkflowSpecIssue[]) {
+    super(
+      `Invalid workflow spec${specName ? ` '${specName}'` : ''}:\n` +
+      issues.map(issue => `  ${issue.path}: ${issue.message}`).join('\n')
+    );
+    this.name = 'WorkflowValidationError';
+    this.issues = issues;
+  }
+}
@@ -0,0 +1,70 @@
+// Execution context for XFlow SDK
+// Gives functions running on workers access to heartbeats, cancellation and retry details
+
+import { Context } from '@temporalio/activity';
+import { XFlowExecutionContext, XFlowLogger } from '../types/index';
+import { ActivityExecutionContext } from '../types/internal';
+
+/**
+ * Get the context of the activity being executed, if any
+ */
+export function currentActivity(): Context | undefined {
+  try {
+    return Context.current();
+  } catch {
+    return undefined; // Called outside of an activity, e.g. in tests
+  }
+}
+
+/**
+ * Build the execution context passed to a function running on a worker
+ * Outside of an activity, heartbeats are ignored and the signal never aborts.
+ */
+export function createExecutionContext(
+  functionName: string,
+  execution: Pick<ActivityExecutionContext, 'workflowId' | 'stageId'> = {}
+): XFlowExecutionContext {
+  const activity = currentActivity();
+  const workflowId = execution.workflowId ?? activity?.info.workflowExecution.workflowId;
+  const logMeta = { function: functionName, workflowId, stageId: execution.stageId };
+
+  if (!activity) {
+    return {
+      workflowId,
+      stageId: execution.stageId,
+      attempt: 1,
+      heartbeat: () => undefined,
+      signal: new AbortController().signal,
+      logger: createScopedLogger(consoleLogger, logMeta)
+    };
+  }
+
+  return {
+    workflowId,
+    stageId: execution.stageId,
+    attempt: activity.info.attempt,
+    lastHeartbeatDetails: activity.info.heartbeatDetails,
+    heartbeat: details => activity.heartbeat(details),
+    signal: activity.cancellationSignal,
+    logger: createScopedLogger(activity.log, logMeta)
+  };
+}
+
+const consoleLogger: XFlowLogger = {
+  debug: (message, meta) => console.debug(`[XFlow] ${message}`, meta),
+  info: (message, meta) => console.log(`[XFlow] ${message}`, meta),
+  warn: (message, meta) => console.warn(`[XFlow] ${message}`, meta),
+  error: (message, meta) => console.error(`[XFlow] ${message}`, meta)
+};
+
+/**
+ * Wrap a logger so every entry carries the given metadata
+ */
+function createScopedLogger(logger: XFlowLogger, scope: Record<string, unknown>): XFlowLogger {
+  return {
+    debug: (message, meta) => logger.debug(message, { ...scope, ...meta }),
+    info: (message, meta) => logger.info(message, { ...scope, ...meta }),
+    warn: (message, meta) => logger.warn(message, { ...scope, ...meta }),
+    error: (message, meta) => logger.error(message, { ...scope, ...meta })
+  };
+}
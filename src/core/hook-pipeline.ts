@@ -0,0 +1,82 @@
+// Function hook pipeline for XFlow SDK
+// Shared by direct calls of decorated functions and by the worker stage executor
+
+import { v4 as uuidv4 } from 'uuid';
+import { XFlowContext, XFlowHooks, WorkerStage } from '../types/index';
+
+/**
+ * Build the context passed to the hooks of a function call
+ * Arguments are exposed as `inputs.arg0`, `inputs.arg1`, ...
+ */
+export function createHookContext(
+  name: string,
+  stage: WorkerStage,
+  args: any[],
+  execution: Pick<XFlowContext, 'workflowId' | 'stageId' | 'attempt' | 'taskQueue'> = {}
+): XFlowContext {
+  return {
+    id: uuidv4(),
+    name,
+    stage,
+    inputs: Object.fromEntries(args.map((val, i) => [`arg${i}`, val])),
+    startTime: new Date(),
+    ...execution
+  };
+}
+
+/**
+ * Run a function call through its hooks: onStart, then onSuccess or onFailure, then onFinish
+ * Errors thrown by onFailure and onFinish are logged so they never hide the call's own outcome.
+ */
+export async function runWithHooks<T>(
+  context: XFlowContext,
+  hooks: XFlowHooks = {},
+  run: () => Promise<T>
+): Promise<T> {
+  try {
+    // Execute onStart hook
+    if (hooks.onStart) {
+      await hooks.onStart(context);
+    }
+
+    // Execute the original function
+    const result = await run();
+
+    // Update context with success
+    context.output = result;
+    context.endTime = new Date();
+
+    // Execute onSuccess hook
+    if (hooks.onSuccess) {
+      await hooks.onSuccess(context);
+    }
+
+    return result;
+
+  } catch (error) {
+    // Update context with error
+    context.error = error as Error;
+    context.endTime = new Date();
+
+    // Execute onFailure hook
+    if (hooks.onFailure) {
+      try {
+        await hooks.onFailure(context);
+      } catch (hookError) {
+        console.error('Error in onFailure hook:', hookError);
+      }
+    }
+
+    throw error;
+
+  } finally {
+    // Always execute onFinish hook
+    if (hooks.onFinish) {
+      try {
+        await hooks.onFinish(context);
+      } catch (hookError) {
+        console.error('Error in onFinish hook:', hookError);
+      }
+    }
+  }
+}
@@ -0,0 +1,196 @@
+// Parameter reference resolution for XFlow SDK
+// Lets stage params pull values out of upstream stage results
+//
+// NOTE: this module is loaded inside the Temporal workflow sandbox, so it must
+// stay free of Node.js and Temporal imports.
+
+/**
+ * Values a reference can be resolved against
+ */
+export interface ReferenceScope {
+  /** Outputs of stages that have already completed, keyed by stage ID */
+  stages: Record<string, { result: any }>;
+  /**
+   * Extra names a reference may start with, e.g. `item` and `index` inside a
+   * map stage. They shadow stage IDs; `stages.<id>` still reaches the stage.
+   */
+  locals?: Record<string, any>;
+}
+
+const TEMPLATE_PATTERN = /\$\{([^}]+)\}/g;
+const FULL_TEMPLATE_PATTERN = /^\$\{([^}]+)\}$/;
+
+/**
+ * Check whether a value is a `{ $ref: 'path' }` reference object
+ */
+export function isReference(value: any): value is { $ref: string } {
+  return (
+    value !== null &&
+    typeof value === 'object' &&
+    !Array.isArray(value) &&
+    Object.keys(value).length === 1 &&
+    typeof value.$ref === 'string'
+  );
+}
+
+/**
+ * Resolve all references inside stage params
+ *
+ * Supported syntax:
+ * - `{ $ref: 'validate.result.userId' }` - replaced by the referenced value
+ * - `'${stages.validate.result.userId}'` - a string that is exactly one template
+ *   keeps the referenced value's type; templates embedded in a longer string are
+ *   interpolated as text
+ *
+ * The leading `stages.` segment is optional. Only stages listed in
+ * `allowedStages` (the stage's `dependsOn`) may be referenced.
+ */
+export function resolveParams(
+  params: Record<string, any>,
+  scope: ReferenceScope,
+  allowedStages: string[]
+): Record<string, any> {
+  return resolveValue(params, scope, allowedStages, 'params');
+}
+
+/**
+ * Resolve references inside any value (params, conditions, ...)
+ * `location` is only used to make error messages point at the offending field
+ */
+export function resolveValue(value: any, scope: ReferenceScope, allowedStages: string[], location: string): any {
+  if (isReference(value)) {
+    return resolvePath(value.$ref, scope, allowedStages, location);
+  }
+
+  if (typeof value === 'string') {
+    return resolveTemplate(value, scope, allowedStages, location);
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item, index) => resolveValue(item, scope, allowedStages, `${location}[${index}]`));
+  }
+
+  if (value !== null && typeof value === 'object') {
+    const resolved: Record<string, any> = {};
+    for (const [key, item] of Object.entries(value)) {
+      resolved[key] = resolveValue(item, scope, allowedStages, `${location}.${key}`);
+    }
+    return resolved;
+  }
+
+  return value;
+}
+
+function resolveTemplate(value: string, scope: ReferenceScope, allowedStages: string[], location: string): any {
+  const fullMatch = value.match(FULL_TEMPLATE_PATTERN);
+  if (fullMatch) {
+    return resolvePath(fullMatch[1].trim(), scope, allowedStages, location);
+  }
+
+  return value.replace(TEMPLATE_PATTERN, (_match, expression: string) => {
+    const resolved = resolvePath(expression.trim(), scope, allowedStages, location);
+    return typeof resolved === 'object' && resolved !== null ? JSON.stringify(resolved) : String(resolved);
+  });
+}
+
+/**
+ * Resolve a dotted reference path such as `validate.result.items[0].sku`
+ * With `allowMissing`, a missing property yields `undefined` instead of an error
+ */
+export function resolvePath(
+  reference: string,
+  scope: ReferenceScope,
+  allowedStages: string[],
+  location: string,
+  allowMissing: boolean = false
+): any {
+  const segments = parsePath(reference);
+
+  const fail = (reason: string): never => {
+    throw new Error(`Cannot resolve reference '${reference}' at ${location}: ${reason}`);
+  };
+
+  let current: any;
+  let walked: string;
+  if (scope.locals && segments.length > 0 && Object.prototype.hasOwnProperty.call(scope.locals, segments[0])) {
+    walked = segments.shift()!;
+    current = scope.locals[walked];
+  } else {
+    if (segments[0] === 'stages') {
+      segments.shift();
+    }
+
+    const stageId = segments.shift();
+    if (!stageId) {
+      fail('reference is empty');
+    }
+
+    if (!allowedStages.includes(stageId!)) {
+      fail(`stage '${stageId}' is not listed in dependsOn`);
+    }
+
+    const stageOutput = scope.stages[stageId!];
+    if (!stageOutput) {
+      fail(`stage '${stageId}' has no result`);
+    }
+
+    current = stageOutput;
+    walked = stageId!;
+  }
+
+  for (const segment of segments) {
+    if (current === null || typeof current !== 'object' || !(segment in current)) {
+      if (allowMissing) {
+        return undefined;
+      }
+      fail(`'${walked}' has no property '${segment}'`);
+    }
+    current = current[segment];
+    walked = `${walked}.${segment}`;
+  }
+
+  return current;
+}
+
+/**
+ * Collect every reference inside a value without resolving it
+ * Used to check references statically before a workflow starts
+ */
+export function collectReferences(value: any, location: string): Array<{ reference: string; location: string }> {
+  if (isReference(value)) {
+    return [{ reference: value.$ref, location }];
+  }
+
+  if (typeof value === 'string') {
+    return Array.from(value.matchAll(TEMPLATE_PATTERN)).map(match => ({ reference: match[1].trim(), location }));
+  }
+
+  if (Array.isArray(value)) {
+    return value.flatMap((item, index) => collectReferences(item, `${location}[${index}]`));
+  }
+
+  if (value !== null && typeof value === 'object') {
+    return Object.entries(value).flatMap(([key, item]) => collectReferences(item, `${location}.${key}`));
+  }
+
+  return [];
+}
+
+/**
+ * Get the stage ID a reference path points at
+ */
+export function getReferencedStage(reference: string): string | undefined {
+  const segments = parsePath(reference);
+  return segments[0] === 'stages' ? segments[1] : segments[0];
+}
+
+/**
+ * Split a reference path into segments, treating `[n]` as a segment
+ */
+function parsePath(reference: string): string[] {
+  return reference
+    .replace(/\[(\w+)\]/g, '.$1')
+    .split('.')
+    .map(segment => segment.trim())
+    .filter(segment => segment.length > 0);
+}
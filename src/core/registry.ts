@@ -1,19 +1,52 @@
 // Function registry for XFlow SDK
 // Tracks all decorated functions and handles routing
 
-import { WorkerStage, XFlowFunctionOptions } from '../types/index';
-import { RegisteredXFlowFunction, FunctionRoute } from '../types/internal';
+import { ApplicationFailure } from '@temporalio/activity';
+import { WorkerStage, XFlowFunctionOptions, WorkflowStage, WorkflowSpecIssue } from '../types/index';
+import { RegisteredXFlowFunction, FunctionRoute, ActivityExecutionContext } from '../types/internal';
+import { VALIDATION_ERROR_TYPE } from './errors';
+import { collectReferences } from './param-resolver';
+import { formatPath, formatSchemaIssues } from './spec-validator';
+import { createHookContext, runWithHooks } from './hook-pipeline';
+import { createExecutionContext, currentActivity } from './execution-context';
+import { DEFAULT_POOLS, validatePool, getPoolTaskQueue, getPoolExecutorName, getPoolLabel } from './worker-pools';
 
 /**
  * Global registry of all decorated XFlow functions
  */
 class XFlowRegistry {
   private functions: Map<string, RegisteredXFlowFunction> = new Map();
-  private stageMap: Map<WorkerStage, Set<string>> = new Map([
-    [1, new Set()],
-    [2, new Set()],
-    [3, new Set()]
-  ]);
+  private pools: WorkerStage[] = [...DEFAULT_POOLS];
+  private stageMap: Map<WorkerStage, Set<string>> = new Map(DEFAULT_POOLS.map(pool => [pool, new Set<string>()]));
+
+  /**
+   * Declare named worker pools next to the default pools 1, 2 and 3
+   */
+  declarePools(pools: string[]): void {
+    pools.forEach(pool => {
+      validatePool(pool);
+      if (!this.pools.includes(pool)) {
+        this.pools.push(pool);
+      }
+      if (!this.stageMap.has(pool)) {
+        this.stageMap.set(pool, new Set());
+      }
+    });
+  }
+
+  /**
+   * Get the declared worker pools, default pools first
+   */
+  getPools(): WorkerStage[] {
+    return [...this.pools];
+  }
+
+  /**
+   * Check whether a worker pool is declared
+   */
+  isDeclaredPool(pool: WorkerStage): boolean {
+    return this.pools.includes(pool);
+  }
 
   /**
    * Register a function from the @xflowFunction decorator
@@ -28,6 +61,8 @@ class XFlowRegistry {
       lineNumber?: number;
     }
   ): void {
+    validatePool(stage);
+
     // Check for name conflicts
     if (this.functions.has(name)) {
       const existing = this.functions.get(name)!;
@@ -49,8 +84,11 @@ class XFlowRegistry {
       }
     };
 
+    // Pools may be declared after their functions are registered
+    const poolFunctions = this.stageMap.get(stage) ?? new Set<string>();
+    poolFunctions.add(name);
     this.functions.set(name, registration);
-    this.stageMap.get(stage)!.add(name);
+    this.stageMap.set(stage, poolFunctions);
 
     console.log(`[XFlow Registry] Registered function '${name}' for stage ${stage}`);
   }
@@ -92,7 +130,7 @@ class XFlowRegistry {
     });
 
     // Add the stage execution dispatcher
-    activities[`executeStage${stage}Activity`] = this.createStageExecutor(stage);
+    activities[getPoolExecutorName(stage)] = this.createStageExecutor(stage);
 
     return activities;
   }
@@ -102,8 +140,13 @@ class XFlowRegistry {
    * This function routes incoming function calls to the right registered function
    */
   private createStageExecutor(stage: WorkerStage) {
-    return async (functionName: string, params: Record<string, any>): Promise<any> => {
-      console.log(`[Worker-${stage}] Executing ${functionName} with params:`, params);
+    return async (
+      functionName: string,
+      params: Record<string, any>,
+      execution: Pick<ActivityExecutionContext, 'workflowId' | 'stageId'> = {}
+    ): Promise<any> => {
+      const location = execution.stageId ? ` (stage ${execution.stageId} of ${execution.workflowId})` : '';
+      console.log(`[Worker-${stage}] Executing ${functionName}${location} with params:`, params);
 
       const registeredFunction = this.getFunction(functionName);
       
@@ -118,21 +161,80 @@ class XFlowRegistry {
         );
       }
 
-      // Execute the original function
-      return await registeredFunction.originalFunction(params);
+      const { input, output } = registeredFunction.options;
+
+      // Validate params against the function's input schema
+      let validatedParams = params;
+      if (input) {
+        const parsed = input.safeParse(params);
+        if (!parsed.success) {
+          throw ApplicationFailure.nonRetryable(
+            `Input validation failed for '${functionName}': ${formatSchemaIssues(parsed.error)}`,
+            VALIDATION_ERROR_TYPE
+          );
+        }
+        validatedParams = parsed.data;
+      }
+
+      // Execute the original function through its hooks, as a direct call would.
+      // Functions may take the execution context as a second argument.
+      const executionContext = createExecutionContext(functionName, execution);
+      const context = createHookContext(functionName, stage, [validatedParams], {
+        workflowId: executionContext.workflowId,
+        stageId: executionContext.stageId,
+        attempt: executionContext.attempt,
+        taskQueue: currentActivity()?.info.taskQueue
+      });
+      const result = await runWithHooks(context, registeredFunction.options.hooks, async () => (
+        registeredFunction.originalFunction(validatedParams, executionContext)
+      ));
+
+      // Validate the return value against the function's output schema
+      if (output) {
+        const parsed = output.safeParse(result);
+        if (!parsed.success) {
+          throw ApplicationFailure.nonRetryable(
+            `Output validation failed for '${functionName}': ${formatSchemaIssues(parsed.error)}`,
+            VALIDATION_ERROR_TYPE
+          );
+        }
+        return parsed.data;
+      }
+
+      return result;
     };
   }
 
   /**
    * Get function routing information for workflow orchestration
    */
-  getFunctionRoutes(): FunctionRoute[] {
-    return this.getAllFunctions().map(func => ({
+  getFunctionRoutes(taskQueuePrefix?: string): FunctionRoute[] {
+    return this.getAllFunctions().map(func => this.buildRoute(func, taskQueuePrefix));
+  }
+
+  /**
+   * Get routing information for a single function
+   */
+  getFunctionRoute(functionName: string, taskQueuePrefix?: string): FunctionRoute | null {
+    const func = this.getFunction(functionName);
+    return func ? this.buildRoute(func, taskQueuePrefix) : null;
+  }
+
+  /**
+   * Build the route for a registered function, including its timeout and retry settings
+   */
+  private buildRoute(func: RegisteredXFlowFunction, taskQueuePrefix?: string): FunctionRoute {
+    return {
       functionName: func.name,
       stage: func.stage,
-      taskQueue: `xflow-stage${func.stage}-queue`,
-      timeout: func.options.timeout || '5 minutes'
-    }));
+      taskQueue: getPoolTaskQueue(func.stage, taskQueuePrefix),
+      executor: getPoolExecutorName(func.stage),
+      timeout: func.options.timeout || '5 minutes',
+      scheduleToCloseTimeout: func.options.scheduleToCloseTimeout,
+      heartbeatTimeout: func.options.heartbeatTimeout,
+      retry: func.options.retry,
+      compensate: func.options.compensate
+    };
   }
 
   /**
@@ -149,11 +251,10 @@ class XFlowRegistry {
   getStats() {
     const stats = {
       totalFunctions: this.functions.size,
-      byStage: {
-        stage1: this.stageMap.get(1)!.size,
-        stage2: this.stageMap.get(2)!.size,
-        stage3: this.stageMap.get(3)!.size
-      },
+      // Keyed by pool label: stage1, stage2, stage3, then named pools
+      byStage: Object.fromEntries(
+        Array.from(this.stageMap.entries()).map(([pool, names]) => [getPoolLabel(pool), names.size])
+      ) as Record<string, number>,
       functions: this.getAllFunctions().map(f => ({
         name: f.name,
         stage: f.stage,
@@ -173,6 +274,44 @@ class XFlowRegistry {
     this.stageMap.forEach(set => set.clear());
   }
 
+  /**
+   * Check static stage params against the input schemas of their functions
+   * Stages whose params reference upstream results are checked on the worker instead
+   */
+  validateStageParams(stages: WorkflowStage[], path: Array<string | number> = ['stages']): WorkflowSpecIssue[] {
+    const issues: WorkflowSpecIssue[] = [];
+
+    stages.forEach((stage, index) => {
+      if (stage.workflow && typeof stage.workflow !== 'string') {
+        issues.push(...this.validateStageParams(stage.workflow.stages, [...path, index, 'workflow', 'stages']));
+      }
+
+      if (!stage.function) {
+        return;
+      }
+
+      // Map stages call the function with their per-item params
+      const paramsPath = stage.type === 'map' ? ['map', 'params'] : ['params'];
+      const params = (stage.type === 'map' ? stage.map?.params : stage.params) ?? {};
+      const input = this.getFunction(stage.function)?.options.input;
+      if (!input || collectReferences(params, 'params').length > 0) {
+        return;
+      }
+
+      const parsed = input.safeParse(params);
+      if (!parsed.success) {
+        parsed.error.issues.forEach(issue => {
+          issues.push({
+            path: formatPath([...path, index, ...paramsPath, ...issue.path]),
+            message: `${issue.message} (input schema of '${stage.function}')`
+          });
+        });
+      }
+    });
+
+    return issues;
+  }
+
   /**
    * Validate that all functions in a workflow are registered
    */
@@ -0,0 +1,201 @@
+// Workflow file loader for XFlow SDK
+// Reads workflow specs from YAML or JSON files so pipelines can be edited without code
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { WorkflowSpec, WorkflowFileInput, WorkflowFileOptions } from '../types/index';
+import { WorkflowValidationError } from './errors';
+import { validateWorkflowSpec } from './spec-validator';
+
+// Load-time templates use `{{ }}` so they cannot be mistaken for the `${ }`
+// references the workflow resolves at runtime
+const INPUT_TEMPLATE_PATTERN = /\{\{([^}]*)\}\}/g;
+const FULL_INPUT_TEMPLATE_PATTERN = /^\{\{([^}]*)\}\}$/;
+const INPUT_NAME_PATTERN = /^inputs\.([\w-]+)$/;
+
+/**
+ * Load a workflow spec from a YAML (`.yaml`, `.yml`) or JSON (`.json`) file
+ *
+ * Besides the regular spec fields, a workflow file may contain:
+ * - `inputs`: declared inputs, required unless they have a default. They are
+ *   substituted when the file is loaded wherever a stage uses
+ *   `{{ inputs.<name> }}`; a value that is exactly one template keeps the
+ *   input's type, other templates are interpolated as text. Input values must
+ *   not contain `${`, which the workflow would resolve as a reference at runtime.
+ *   In YAML, quote values that start with a template.
+ * - `{ $include: './fragments/notify.yaml' }` entries in `stages`, replaced by
+ *   the stage (or list of stages) in that file. Paths are relative to the
+ *   including file and fragments may include further fragments.
+ *
+ * The result is validated and can be passed straight to `xflow.executeWorkflow()`.
+ *
+ * @example
+ * ```typescript
+ * const spec = loadWorkflowSpec('./workflows/order.yaml', { inputs: { region: 'eu' } });
+ * const result = await xflow.executeWorkflow(spec);
+ * ```
+ */
+export function loadWorkflowSpec(filePath: string, options: WorkflowFileOptions = {}): WorkflowSpec {
+  const absolutePath = path.resolve(filePath);
+  const document = readWorkflowFile(absolutePath);
+
+  if (document === null || typeof document !== 'object' || Array.isArray(document)) {
+    throw new Error(`Workflow file '${filePath}' must contain a workflow spec object`);
+  }
+
+  const { inputs: declaredInputs, stages, ...spec } = document;
+  const inputs = resolveInputs(filePath, declaredInputs ?? {}, options.inputs ?? {});
+  const expandedStages = Array.isArray(stages) ? expandIncludes(stages, absolutePath, [absolutePath]) : stages;
+
+  const loaded = { ...spec, stages: substituteInputs(expandedStages, inputs) } as WorkflowSpec;
+
+  const validation = validateWorkflowSpec(loaded);
+  if (!validation.valid) {
+    throw new WorkflowValidationError(loaded.name ?? filePath, validation.issues);
+  }
+
+  return loaded;
+}
+
+/**
+ * Read and parse a workflow file based on its extension
+ */
+function readWorkflowFile(filePath: string): any {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Workflow file not found: ${filePath}`);
+  }
+
+  const content = fs.readFileSync(filePath, 'utf8');
+  const extension = path.extname(filePath).toLowerCase();
+
+  try {
+    if (extension === '.json') {
+      return JSON.parse(content);
+    }
+    if (extension === '.yaml' || extension === '.yml') {
+      return parseYaml(content);
+    }
+  } catch (error: any) {
+    throw new Error(`Cannot parse workflow file '${filePath}': ${error.message}`);
+  }
+
+  throw new Error(`Unsupported workflow file type '${extension}' (expected .yaml, .yml or .json): ${filePath}`);
+}
+
+/**
+ * Combine declared inputs with the values given by the caller
+ * Values become part of the spec, so they cannot carry runtime references.
+ */
+function resolveInputs(
+  filePath: string,
+  declared: Record<string, WorkflowFileInput>,
+  given: Record<string, any>
+): Record<string, any> {
+  const unknown = Object.keys(given).filter(name => !(name in declared));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown inputs for workflow file '${filePath}': ${unknown.join(', ')}`);
+  }
+
+  const inputs: Record<string, any> = {};
+  const missing: string[] = [];
+
+  Object.entries(declared).forEach(([name, input]) => {
+    if (name in given) {
+      inputs[name] = given[name];
+    } else if (input && 'default' in input) {
+      inputs[name] = input.default;
+    } else {
+      missing.push(name);
+    }
+  });
+
+  if (missing.length > 0) {
+    throw new Error(`Missing inputs for workflow file '${filePath}': ${missing.join(', ')}`);
+  }
+
+  const templated = Object.keys(inputs).filter(name => containsTemplate(inputs[name]));
+  if (templated.length > 0) {
+    throw new Error(`Inputs for workflow file '${filePath}' must not contain '\${': ${templated.join(', ')}`);
+  }
+
+  return inputs;
+}
+
+/**
+ * Replace `{ $include: 'path' }` entries with the stages they point at
+ */
+function expandIncludes(stages: any[], filePath: string, trail: string[]): any[] {
+  return stages.flatMap(stage => {
+    if (stage === null || typeof stage !== 'object' || typeof stage.$include !== 'string') {
+      return [stage];
+    }
+
+    const includePath = path.resolve(path.dirname(filePath), stage.$include);
+    if (trail.includes(includePath)) {
+      throw new Error(`Workflow file '${filePath}' includes itself: ${[...trail, includePath].join(' -> ')}`);
+    }
+
+    const fragment = readWorkflowFile(includePath);
+    const fragmentStages = Array.isArray(fragment) ? fragment : fragment?.stages ?? [fragment];
+    return expandIncludes(fragmentStages, includePath, [...trail, includePath]);
+  });
+}
+
+/**
+ * Substitute `{{ inputs.<name> }}` templates; `${...}` references are left for
+ * the workflow to resolve at runtime
+ */
+function substituteInputs(value: any, inputs: Record<string, any>): any {
+  if (typeof value === 'string') {
+    const fullMatch = value.match(FULL_INPUT_TEMPLATE_PATTERN);
+    if (fullMatch) {
+      return getInput(fullMatch[1], inputs);
+    }
+
+    return value.replace(INPUT_TEMPLATE_PATTERN, (_match, expression: string) => {
+      const input = getInput(expression, inputs);
+      return typeof input === 'object' && input !== null ? JSON.stringify(input) : String(input);
+    });
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => substituteInputs(item, inputs));
+  }
+
+  if (value !== null && typeof value === 'object') {
+    const substituted: Record<string, any> = {};
+    for (const [key, item] of Object.entries(value)) {
+      substituted[key] = substituteInputs(item, inputs);
+    }
+    return substituted;
+  }
+
+  return value;
+}
+
+function getInput(expression: string, inputs: Record<string, any>): any {
+  const match = expression.trim().match(INPUT_NAME_PATTERN);
+  if (!match) {
+    throw new Error(`Workflow file template '{{${expression}}}' must name an input as '{{ inputs.<name> }}'`);
+  }
+
+  const name = match[1];
+  if (!(name in inputs)) {
+    throw new Error(`Workflow file uses undeclared input '${name}'`);
+  }
+  return inputs[name];
+}
+
+/**
+ * Check whether a value holds a `${...}` runtime reference anywhere
+ */
+function containsTemplate(value: unknown): boolean {
+  if (typeof value === 'string') {
+    return value.includes('${');
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.entries(value).some(([key, item]) => key.includes('${') || containsTemplate(item));
+  }
+  return false;
+}
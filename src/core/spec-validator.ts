@@ -0,0 +1,477 @@
+// Workflow spec validation for XFlow SDK
+// Catches malformed specs on the client, before anything is sent to Temporal
+
+import { z } from 'zod';
+import { msToNumber, Duration } from '@temporalio/common';
+import {
+  StageCondition,
+  WorkflowSpec,
+  WorkflowSpecIssue,
+  WorkflowSpecValidation,
+  XFlowStartOptions
+} from '../types/index';
+import { collectReferences, getReferencedStage } from './param-resolver';
+import { collectConditionReferences } from './stage-conditions';
+
+/**
+ * A duration Temporal accepts, e.g. '30 seconds', '5m' or '1 hour'
+ */
+const durationSchema = z.string().refine(isDuration, value => ({
+  message: value ? `invalid duration '${value}' (expected e.g. '30 seconds' or '5m')` : 'duration must not be empty'
+}));
+
+/**
+ * Zod schema for the timeouts and deadline passed when starting a workflow
+ */
+const startOptionsSchema = z.object({
+  executionTimeout: durationSchema.optional(),
+  runTimeout: durationSchema.optional(),
+  deadline: z.union([durationSchema, z.date()]).optional()
+});
+
+const retryPolicySchema = z.object({
+  maxAttempts: z.number().int().min(0).optional(),
+  backoffCoefficient: z.number().min(1).optional(),
+  initialInterval: durationSchema.optional(),
+  maxInterval: durationSchema.optional(),
+  nonRetryableErrors: z.array(z.string()).optional()
+});
+
+const stageConditionSchema: z.ZodType<StageCondition> = z.lazy(() => z.union([
+  z.string(),
+  z.object({ all: z.array(stageConditionSchema) }),
+  z.object({ any: z.array(stageConditionSchema) }),
+  z.object({ not: stageConditionSchema }),
+  z.object({
+    $ref: z.string().min(1),
+    equals: z.any().optional(),
+    notEquals: z.any().optional(),
+    in: z.array(z.any()).optional(),
+    exists: z.boolean().optional(),
+    gt: z.number().optional(),
+    gte: z.number().optional(),
+    lt: z.number().optional(),
+    lte: z.number().optional()
+  })
+]));
+
+const signalOptionsSchema = z.object({
+  name: z.string().min(1, 'signal name must not be empty'),
+  timeout: durationSchema.optional(),
+  schema: z.custom<z.ZodTypeAny>(value => value instanceof z.ZodType, 'schema must be a zod schema').optional(),
+  defaultPayload: z.any().optional()
+});
+
+const mapOptionsSchema = z.object({
+  items: z.union([z.array(z.any()), z.object({ $ref: z.string().min(1) }), z.string().min(1)]),
+  params: z.record(z.any()),
+  maxConcurrency: z.number().int().min(1).optional(),
+  maxFailures: z.number().int().min(0).optional()
+});
+
+const timerOptionsSchema = z.object({
+  duration: durationSchema.optional(),
+  until: z.union([z.string().min(1), z.number(), z.object({ $ref: z.string().min(1) })]).optional()
+}).refine(timer => (timer.duration === undefined) !== (timer.until === undefined), {
+  message: 'timer must set exactly one of duration and until'
+});
+
+const workflowHookSchema = z.custom<(...args: any[]) => any>(value => typeof value === 'function', 'hook must be a function');
+
+const workflowHooksSchema = z.object({
+  onWorkflowStart: workflowHookSchema.optional(),
+  onStageStart: workflowHookSchema.optional(),
+  onStageComplete: workflowHookSchema.optional(),
+  onWorkflowComplete: workflowHookSchema.optional(),
+  onWorkflowFail: workflowHookSchema.optional()
+}).strict();
+
+/**
+ * Names that map stage params may reference besides `dependsOn` stages
+ */
+const MAP_ITEM_NAMES = ['item', 'index'];
+
+/**
+ * Name under which every stage may reference the workflow input
+ */
+const WORKFLOW_INPUT_NAME = 'input';
+
+/**
+ * Zod schema for a single workflow stage
+ */
+export const workflowStageSchema = z.object({
+  id: z.string().min(1, 'stage id must not be empty'),
+  type: z.enum(['function', 'waitForSignal', 'map', 'workflow', 'timer']).optional(),
+  function: z.string().min(1, 'function name must not be empty').optional(),
+  params: z.record(z.any()).optional(),
+  signal: signalOptionsSchema.optional(),
+  map: mapOptionsSchema.optional(),
+  timer: timerOptionsSchema.optional(),
+  workflow: z.union([
+    z.string().min(1, 'workflow name must not be empty'),
+    z.lazy((): z.ZodTypeAny => workflowSpecSchema)
+  ]).optional(),
+  continueOnError: z.boolean().optional(),
+  compensate: z.union([
+    z.literal(false),
+    z.object({
+      function: z.string().min(1, 'compensation function name must not be empty'),
+      params: z.record(z.any()).optional()
+    })
+  ]).optional(),
+  dependsOn: z.array(z.string()).optional(),
+  when: stageConditionSchema.optional(),
+  timeout: durationSchema.optional(),
+  scheduleToCloseTimeout: durationSchema.optional(),
+  heartbeatTimeout: durationSchema.optional(),
+  retry: retryPolicySchema.optional()
+}).superRefine((stage, ctx) => {
+  const type = stage.type ?? 'function';
+
+  if (type === 'function' && !stage.function) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['function'],
+      message: 'function stages must name a function'
+    });
+  }
+
+  if (type === 'map' && !stage.function) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['function'],
+      message: 'map stages must name a function'
+    });
+  }
+
+  if (type === 'map' && !stage.map) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['map'],
+      message: 'map stages must define map options'
+    });
+  }
+
+  if (type === 'workflow' && !stage.workflow) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['workflow'],
+      message: 'workflow stages must define a workflow'
+    });
+  }
+
+  if (type === 'timer' && !stage.timer) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['timer'],
+      message: 'timer stages must define timer options'
+    });
+  }
+
+  if (type === 'waitForSignal' && !stage.signal) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['signal'],
+      message: 'waitForSignal stages must define a signal'
+    });
+  }
+});
+
+/**
+ * Zod schema for a workflow spec
+ * Covers the shape of the spec plus cross-stage rules: unique stage IDs and
+ * signal names, known and acyclic dependencies, and references limited to `dependsOn`
+ */
+export const workflowSpecSchema = z.object({
+  name: z.string().min(1, 'workflow name must not be empty'),
+  description: z.string().optional(),
+  failureMode: z.enum(['failFast', 'continueIndependent', 'allowPartial']).optional(),
+  executionTimeout: durationSchema.optional(),
+  runTimeout: durationSchema.optional(),
+  deadline: durationSchema.optional(),
+  hooks: workflowHooksSchema.optional(),
+  stages: z.array(workflowStageSchema).min(1, 'workflow must have at least one stage')
+}).superRefine((spec, ctx) => {
+  const stageIds = new Set<string>();
+  const signalNames = new Set<string>();
+
+  const deadlineIssue = spec.deadline !== undefined && isDuration(spec.deadline)
+    ? checkDeadlineFitsTimeouts(msToNumber(spec.deadline as Duration), spec)
+    : undefined;
+  if (deadlineIssue) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['deadline'], message: deadlineIssue });
+  }
+
+  spec.stages.forEach((stage, index) => {
+    if (stageIds.has(stage.id)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['stages', index, 'id'],
+        message: `duplicate stage id '${stage.id}'`
+      });
+    }
+    if (stage.id === WORKFLOW_INPUT_NAME) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['stages', index, 'id'],
+        message: `stage id '${WORKFLOW_INPUT_NAME}' is reserved for the workflow input`
+      });
+    }
+    stageIds.add(stage.id);
+
+    // A signal completes the one stage waiting for it, so two stages cannot share a name
+    if (stage.signal) {
+      if (signalNames.has(stage.signal.name)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['stages', index, 'signal', 'name'],
+          message: `duplicate signal name '${stage.signal.name}'`
+        });
+      }
+      signalNames.add(stage.signal.name);
+    }
+  });
+
+  spec.stages.forEach((stage, index) => {
+    const dependsOn = stage.dependsOn || [];
+
+    dependsOn.forEach((depId, depIndex) => {
+      if (depId === stage.id) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['stages', index, 'dependsOn', depIndex],
+          message: `stage '${stage.id}' depends on itself`
+        });
+      } else if (!stageIds.has(depId)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['stages', index, 'dependsOn', depIndex],
+          message: `unknown stage '${depId}'`
+        });
+      } else if (stage.map && MAP_ITEM_NAMES.includes(depId)) {
+        // In map params the name means the current item, so the stage's result could not be referenced
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['stages', index, 'dependsOn', depIndex],
+          message: `map stages cannot depend on a stage with id '${depId}', which map params use for the current item`
+        });
+      }
+    });
+
+    const references = [
+      ...collectReferences(stage.params ?? {}, 'params'),
+      ...(stage.when !== undefined ? collectConditionReferences(stage.when) : []),
+      ...(stage.map ? collectReferences(stage.map.items, 'map.items') : []),
+      ...(stage.timer?.until !== undefined ? collectReferences(stage.timer.until, 'timer.until') : []),
+      // Per-item params may also use the current item and its index
+      ...(stage.map
+        ? collectReferences(stage.map.params, 'map.params')
+          .filter(({ reference }) => !MAP_ITEM_NAMES.includes(getReferenceRoot(reference)))
+        : [])
+    ].filter(({ reference }) => getReferenceRoot(reference) !== WORKFLOW_INPUT_NAME);
+
+    references.forEach(({ reference, location }) => {
+      const referencedStage = getReferencedStage(reference);
+      if (!referencedStage || !dependsOn.includes(referencedStage)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['stages', index, ...parseLocation(location)],
+          message: `reference '${reference}' must point at a stage listed in dependsOn`
+        });
+      }
+    });
+
+    // Compensation params may also reference the stage being compensated, and
+    // map stages the compensated item
+    if (stage.compensate && stage.compensate.params) {
+      collectReferences(stage.compensate.params, 'compensate.params').forEach(({ reference, location }) => {
+        const root = getReferenceRoot(reference);
+        if (root === WORKFLOW_INPUT_NAME || (stage.map && MAP_ITEM_NAMES.includes(root))) {
+          return;
+        }
+
+        const referencedStage = getReferencedStage(reference);
+        if (!referencedStage || (referencedStage !== stage.id && !dependsOn.includes(referencedStage))) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ['stages', index, ...parseLocation(location)],
+            message: `reference '${reference}' must point at this stage or a stage listed in dependsOn`
+          });
+        }
+      });
+    }
+  });
+
+  findCycles(spec.stages).forEach(({ index, cycle }) => {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['stages', index, 'dependsOn'],
+      message: `circular dependency: ${cycle.join(' -> ')}`
+    });
+  });
+});
+
+/**
+ * Validate a workflow spec and report every problem with its path
+ *
+ * @example
+ * ```typescript
+ * const { valid, issues } = validateWorkflowSpec(spec);
+ * // issues: [{ path: 'stages[3].dependsOn[0]', message: "unknown stage 'pay'" }]
+ * ```
+ */
+export function validateWorkflowSpec(spec: WorkflowSpec): WorkflowSpecValidation {
+  const parsed = workflowSpecSchema.safeParse(spec);
+
+  if (parsed.success) {
+    return { valid: true, issues: [] };
+  }
+
+  const issues: WorkflowSpecIssue[] = parsed.error.issues.map(issue => ({
+    path: formatPath(issue.path),
+    message: issue.message
+  }));
+
+  return { valid: false, issues };
+}
+
+/**
+ * Validate the timeouts and deadline of start options
+ *
+ * @example
+ * ```typescript
+ * validateStartOptions({ deadline: 'soon' });
+ * // [{ path: 'deadline', message: "invalid duration 'soon' (expected e.g. '30 seconds' or '5m')" }]
+ * ```
+ */
+export function validateStartOptions(
+  options: Pick<XFlowStartOptions, 'executionTimeout' | 'runTimeout' | 'deadline'>,
+  spec: Pick<WorkflowSpec, 'executionTimeout' | 'runTimeout' | 'deadline'> = {}
+): WorkflowSpecIssue[] {
+  const parsed = startOptionsSchema.safeParse({
+    executionTimeout: options.executionTimeout,
+    runTimeout: options.runTimeout,
+    deadline: options.deadline
+  });
+
+  if (!parsed.success) {
+    return parsed.error.issues.map(issue => ({ path: formatPath(issue.path), message: issue.message }));
+  }
+
+  // Options override the spec, so the deadline must fit the timeouts the run will get
+  const deadline = options.deadline ?? spec.deadline;
+  const timeouts = {
+    executionTimeout: options.executionTimeout ?? spec.executionTimeout,
+    runTimeout: options.runTimeout ?? spec.runTimeout
+  };
+  if (deadline === undefined || (typeof deadline === 'string' && !isDuration(deadline))) {
+    return []; // An invalid spec deadline is reported by the spec validation
+  }
+
+  const deadlineMs = deadline instanceof Date ? deadline.getTime() - Date.now() : msToNumber(deadline as Duration);
+  const deadlineIssue = checkDeadlineFitsTimeouts(deadlineMs, timeouts);
+  return deadlineIssue ? [{ path: 'deadline', message: deadlineIssue }] : [];
+}
+
+/**
+ * Check that a deadline passes before the run or execution timeout ends the run
+ * Otherwise Temporal ends the run first: no stage is cut off and no compensation runs.
+ */
+function checkDeadlineFitsTimeouts(
+  deadlineMs: number,
+  timeouts: { executionTimeout?: string; runTimeout?: string }
+): string | undefined {
+  for (const name of ['runTimeout', 'executionTimeout'] as const) {
+    const timeout = timeouts[name];
+    if (timeout !== undefined && isDuration(timeout) && deadlineMs >= msToNumber(timeout as Duration)) {
+      return `deadline must pass before ${name} '${timeout}' ends the run`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Whether a string is a non-negative duration in Temporal's format
+ */
+function isDuration(value: string): boolean {
+  try {
+    return msToNumber(value as Duration) >= 0;
+  } catch {
+    return false; // Not a duration string
+  }
+}
+
+/**
+ * Find dependency cycles, reporting each cycle once at the stage where it was found
+ */
+function findCycles(stages: Array<{ id: string; dependsOn?: string[] }>): Array<{ index: number; cycle: string[] }> {
+  const indexById = new Map(stages.map((stage, index) => [stage.id, index] as [string, number]));
+  const state = new Map<string, 'visiting' | 'done'>();
+  const cycles: Array<{ index: number; cycle: string[] }> = [];
+
+  const visit = (stageId: string, trail: string[]) => {
+    state.set(stageId, 'visiting');
+
+    const stage = stages[indexById.get(stageId)!];
+    for (const depId of stage.dependsOn || []) {
+      if (depId === stageId || !indexById.has(depId)) {
+        continue; // Reported as self-dependency or unknown stage
+      }
+
+      if (state.get(depId) === 'visiting') {
+        const cycle = [...trail.slice(trail.indexOf(depId)), stageId, depId];
+        cycles.push({ index: indexById.get(stageId)!, cycle });
+      } else if (!state.has(depId)) {
+        visit(depId, [...trail, stageId]);
+      }
+    }
+
+    state.set(stageId, 'done');
+  };
+
+  stages.forEach(stage => {
+    if (!state.has(stage.id)) {
+      visit(stage.id, []);
+    }
+  });
+
+  return cycles;
+}
+
+/**
+ * Get the first segment of a reference, e.g. `item` for `item.sku`
+ */
+function getReferenceRoot(reference: string): string {
+  return reference.split(/[.[]/)[0].trim();
+}
+
+/**
+ * Turn a location such as `params.items[0].sku` into a zod-style path
+ */
+function parseLocation(location: string): Array<string | number> {
+  return location
+    .replace(/\[(\d+)\]/g, '.$1')
+    .split('.')
+    .map(segment => (/^\d+$/.test(segment) ? Number(segment) : segment));
+}
+
+/**
+ * Format zod issues as a single line, e.g. `email: Required; amount: Expected number`
+ */
+export function formatSchemaIssues(error: z.ZodError): string {
+  return error.issues
+    .map(issue => (issue.path.length > 0 ? `${formatPath(issue.path)}: ${issue.message}` : issue.message))
+    .join('; ');
+}
+
+/**
+ * Format a zod path as `stages[3].dependsOn[0]`
+ */
+export function formatPath(path: Array<string | number>): string {
+  return path.reduce<string>((formatted, segment) => {
+    if (typeof segment === 'number') {
+      return `${formatted}[${segment}]`;
+    }
+    return formatted ? `${formatted}.${segment}` : segment;
+  }, '') || '(root)';
+}
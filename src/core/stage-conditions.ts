@@ -0,0 +1,140 @@
+// Stage condition evaluation for XFlow SDK
+// Decides whether a stage with a `when` condition should run
+//
+// NOTE: this module is loaded inside the Temporal workflow sandbox, so it must
+// stay free of Node.js and Temporal imports.
+
+import { StageCondition, StageValueCondition } from '../types/index';
+import { ReferenceScope, collectReferences, resolvePath, resolveValue } from './param-resolver';
+
+/**
+ * Evaluate a stage condition against upstream results
+ * Throws if the condition is malformed or references something it may not
+ */
+export function evaluateCondition(
+  condition: StageCondition,
+  scope: ReferenceScope,
+  allowedStages: string[],
+  location: string = 'when'
+): boolean {
+  if (typeof condition === 'string') {
+    return Boolean(resolveValue(condition, scope, allowedStages, location));
+  }
+
+  if (condition === null || typeof condition !== 'object') {
+    throw new Error(`Invalid condition at ${location}: expected a string or an object`);
+  }
+
+  if ('all' in condition) {
+    return condition.all.every((item, index) =>
+      evaluateCondition(item, scope, allowedStages, `${location}.all[${index}]`));
+  }
+
+  if ('any' in condition) {
+    return condition.any.some((item, index) =>
+      evaluateCondition(item, scope, allowedStages, `${location}.any[${index}]`));
+  }
+
+  if ('not' in condition) {
+    return !evaluateCondition(condition.not, scope, allowedStages, `${location}.not`);
+  }
+
+  if ('$ref' in condition && typeof condition.$ref === 'string') {
+    return evaluateValueCondition(condition, scope, allowedStages, location);
+  }
+
+  throw new Error(`Invalid condition at ${location}: expected '$ref', 'all', 'any' or 'not'`);
+}
+
+function evaluateValueCondition(
+  condition: StageValueCondition,
+  scope: ReferenceScope,
+  allowedStages: string[],
+  location: string
+): boolean {
+  const hasOperator = ['equals', 'notEquals', 'in', 'exists', 'gt', 'gte', 'lt', 'lte']
+    .some(operator => operator in condition);
+
+  // Only `exists` tolerates a missing property - everything else treats it as a bad reference
+  const value = resolvePath(condition.$ref, scope, allowedStages, location, 'exists' in condition);
+
+  if (!hasOperator) {
+    return Boolean(value);
+  }
+
+  const checks: boolean[] = [];
+
+  if ('exists' in condition) {
+    checks.push((value !== undefined) === condition.exists);
+  }
+  if ('equals' in condition) {
+    checks.push(isEqual(value, condition.equals));
+  }
+  if ('notEquals' in condition) {
+    checks.push(!isEqual(value, condition.notEquals));
+  }
+  if (condition.in !== undefined) {
+    checks.push(condition.in.some(candidate => isEqual(value, candidate)));
+  }
+  if (condition.gt !== undefined) {
+    checks.push(typeof value === 'number' && value > condition.gt);
+  }
+  if (condition.gte !== undefined) {
+    checks.push(typeof value === 'number' && value >= condition.gte);
+  }
+  if (condition.lt !== undefined) {
+    checks.push(typeof value === 'number' && value < condition.lt);
+  }
+  if (condition.lte !== undefined) {
+    checks.push(typeof value === 'number' && value <= condition.lte);
+  }
+
+  return checks.every(Boolean);
+}
+
+/**
+ * Collect every reference used by a condition without evaluating it
+ */
+export function collectConditionReferences(
+  condition: StageCondition,
+  location: string = 'when'
+): Array<{ reference: string; location: string }> {
+  if (typeof condition === 'string') {
+    return collectReferences(condition, location);
+  }
+
+  if (condition === null || typeof condition !== 'object') {
+    return [];
+  }
+
+  if ('all' in condition && Array.isArray(condition.all)) {
+    return condition.all.flatMap((item, index) => collectConditionReferences(item, `${location}.all[${index}]`));
+  }
+
+  if ('any' in condition && Array.isArray(condition.any)) {
+    return condition.any.flatMap((item, index) => collectConditionReferences(item, `${location}.any[${index}]`));
+  }
+
+  if ('not' in condition) {
+    return collectConditionReferences(condition.not, `${location}.not`);
+  }
+
+  if ('$ref' in condition && typeof condition.$ref === 'string') {
+    return [{ reference: condition.$ref, location }];
+  }
+
+  return [];
+}
+
+/**
+ * Structural equality for JSON-like values
+ */
+function isEqual(a: any, b: any): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (a === null || b === null || typeof a !== 'object' || typeof b !== 'object') {
+    return false;
+  }
+  return JSON.stringify(a) === JSON.stringify(b);
+}
@@ -6,6 +6,8 @@ import { WorkerStage } from '../types/index';
 import { InternalWorkerOptions } from '../types/internal';
 import { ConnectionManager } from './connection-manager';
 import { registry } from './registry';
+import { workflowHookActivities } from './workflow-hooks';
+import { getPoolTaskQueue, getPoolExecutorName, getOrchestrationTaskQueue } from './worker-pools';
 
 /**
  * Creates Temporal workers that automatically discover and register decorated functions
@@ -38,7 +40,7 @@ export class WorkerFactory {
     const functionCount = Object.keys(activities).length - 1; // Subtract the executor function
 
     console.log(`📋 Worker ${stage} will handle ${functionCount} user functions:`, 
-      Object.keys(activities).filter(name => !name.startsWith('executeStage')));
+      Object.keys(activities).filter(name => name !== getPoolExecutorName(stage)));
 
     // Get workflows path - we need to provide the distributed workflow
     const workflowsPath = this.getWorkflowsPath();
@@ -46,6 +48,7 @@ export class WorkerFactory {
     // Create the worker (matches POC pattern)
     const worker = await Worker.create({
       connection,
+      namespace: this.connectionManager.getNamespace(),
       workflowsPath,
       activities,
       taskQueue,
@@ -64,12 +67,12 @@ export class WorkerFactory {
     taskQueuePrefix?: string;
     maxConcurrentActivities?: number;
   } = {}): Promise<Map<WorkerStage, Worker>> {
-    const { taskQueuePrefix = 'xflow', maxConcurrentActivities = 100 } = options;
+    const { taskQueuePrefix = this.connectionManager.getTaskQueuePrefix(), maxConcurrentActivities = 100 } = options;
     const workers = new Map<WorkerStage, Worker>();
 
     console.log('🔧 Creating workers for all stages...');
 
-    for (const stage of [1, 2, 3] as WorkerStage[]) {
+    for (const stage of registry.getPools()) {
       const functions = registry.getFunctionsByStage(stage);
       
       if (functions.length === 0) {
@@ -79,7 +82,7 @@ export class WorkerFactory {
 
       const worker = await this.createWorker({
         stage,
-        taskQueue: `${taskQueuePrefix}-stage${stage}-queue`,
+        taskQueue: getPoolTaskQueue(stage, taskQueuePrefix),
         maxConcurrentActivities
       });
 
@@ -96,7 +99,7 @@ export class WorkerFactory {
   /**
    * Create the orchestration worker that handles workflow execution
    */
-  async createOrchestrationWorker(taskQueuePrefix: string = 'xflow'): Promise<Worker> {
+  async createOrchestrationWorker(taskQueuePrefix: string = this.connectionManager.getTaskQueuePrefix()): Promise<Worker> {
     console.log('🎭 Creating orchestration worker...');
 
     const connection = await this.connectionManager.getConnection();
@@ -104,9 +107,10 @@ export class WorkerFactory {
 
     const worker = await Worker.create({
       connection,
+      namespace: this.connectionManager.getNamespace(),
       workflowsPath,
-      activities: {}, // Orchestration worker doesn't need activities
-      taskQueue: `${taskQueuePrefix}-orchestration-queue`,
+      activities: workflowHookActivities, // Local activities that run the workflow hooks
+      taskQueue: getOrchestrationTaskQueue(taskQueuePrefix),
       maxConcurrentWorkflowTaskExecutions: 50,
     });
 
@@ -119,8 +123,8 @@ export class WorkerFactory {
    * This points to our distributed workflow implementation
    */
   private getWorkflowsPath(): string {
-    // Point to our workflow executor file that contains executeDistributedWorkflow
-    return require.resolve('./workflow-executor');
+    // Point to the sandbox-safe module that contains executeDistributedWorkflow
+    return require.resolve('./distributed-workflow');
   }
 
   /**
@@ -204,9 +208,7 @@ export class WorkerFactory {
    */
   getWorkerStats() {
     return {
-      stage1Functions: registry.getFunctionsByStage(1).length,
-      stage2Functions: registry.getFunctionsByStage(2).length,
-      stage3Functions: registry.getFunctionsByStage(3).length,
+      functionsByStage: registry.getStats().byStage,
       totalFunctions: registry.getStats().totalFunctions,
       connectionStatus: this.connectionManager.getStatus()
     };
@@ -0,0 +1,69 @@
+// Worker pools for XFlow SDK
+// Naming rules shared by the registry, the workers and the routes
+
+import { WorkerStage } from '../types/index';
+
+/**
+ * Pools that always exist: the three original worker tiers
+ */
+export const DEFAULT_POOLS: WorkerStage[] = [1, 2, 3];
+
+const POOL_NAME_PATTERN = /^[a-z][a-z0-9-]*$/;
+
+/**
+ * Names taken by the orchestration task queue and by `WorkerConfig.stage`
+ */
+const RESERVED_POOL_NAMES = ['orchestration', 'all'];
+
+/**
+ * Check a pool: 1, 2, 3, or a lowercase name such as `pdf-rendering`
+ * Names that would clash with the task queues of the default tiers or of the
+ * orchestration worker are rejected.
+ */
+export function validatePool(pool: WorkerStage): void {
+  if (typeof pool === 'number') {
+    if (!DEFAULT_POOLS.includes(pool)) {
+      throw new Error(`Invalid stage: ${pool}. Must be 1, 2, 3 or the name of a worker pool.`);
+    }
+    return;
+  }
+
+  if (typeof pool !== 'string') {
+    throw new Error(`Invalid stage: ${pool}. Must be 1, 2, 3 or the name of a worker pool.`);
+  }
+
+  if (!POOL_NAME_PATTERN.test(pool) || /^stage\d+$/.test(pool) || RESERVED_POOL_NAMES.includes(pool)) {
+    throw new Error(
+      `Invalid worker pool name '${pool}'. Use lowercase letters, digits and hyphens, ` +
+      `starting with a letter (reserved: 'stage<n>', ${RESERVED_POOL_NAMES.map(name => `'${name}'`).join(', ')}).`
+    );
+  }
+}
+
+/**
+ * Task queue served by the workers of a pool
+ */
+export function getPoolTaskQueue(pool: WorkerStage, taskQueuePrefix: string = 'xflow'): string {
+  return `${taskQueuePrefix}-${getPoolLabel(pool)}-queue`;
+}
+
+/**
+ * Task queue served by the orchestration worker
+ */
+export function getOrchestrationTaskQueue(taskQueuePrefix: string = 'xflow'): string {
+  return `${taskQueuePrefix}-orchestration-queue`;
+}
+
+/**
+ * Name of the activity that dispatches function calls on the workers of a pool
+ */
+export function getPoolExecutorName(pool: WorkerStage): string {
+  return typeof pool === 'number' ? `executeStage${pool}Activity` : `executePool:${pool}`;
+}
+
+/**
+ * Label of a pool in stats and task queue names: `stage1` or the pool name
+ */
+export function getPoolLabel(pool: WorkerStage): string {
+  return typeof pool === 'number' ? `stage${pool}` : pool;
+}
@@ -1,9 +1,44 @@
-import { WorkflowClient } from '@temporalio/client';
+import {
+  WorkflowClient,
+  WorkflowHandle,
+  WorkflowIdReusePolicy,
+  WorkflowExecutionAlreadyStartedError,
+  WorkflowOptions
+} from '@temporalio/client';
 import { v4 as uuidv4 } from 'uuid';
-import { WorkflowSpec, WorkflowExecutionStage, StageStatus, WorkflowStage } from '../types/index';
-import { InternalWorkflowInput, InternalStageResult } from '../types/internal';
+import {
+  WorkflowSpec,
+  WorkflowExecutionStage,
+  WorkflowResult,
+  StageStatus,
+  XFlowStartOptions,
+  XFlowWorkflowHandle
+} from '../types/index';
+import { InternalWorkflowInput, InternalWorkflowOutput, InternalStageResult, FunctionRoute } from '../types/internal';
 import { ConnectionManager } from './connection-manager';
+import { WorkflowIdConflictError } from './errors';
 import { registry } from './registry';
+import { WorkflowRunHandle, WORKFLOW_NAME_MEMO, WORKFLOW_VERSION_MEMO } from './workflow-handle';
+import { getOrchestrationTaskQueue } from './worker-pools';
+import { getHooksKey } from './workflow-hooks';
+import { progressQuery, toStageStatus } from './distributed-workflow';
+
+type Duration = NonNullable<WorkflowOptions['workflowRunTimeout']>;
+
+/**
+ * Map an XFlow workflow ID to the ID of its Temporal workflow execution
+ */
+export function toTemporalWorkflowId(workflowId: string, taskQueuePrefix: string = 'xflow'): string {
+  return `${taskQueuePrefix}-${workflowId}`;
+}
+
+/**
+ * Map a Temporal workflow ID back to the XFlow workflow ID
+ */
+export function fromTemporalWorkflowId(temporalWorkflowId: string, taskQueuePrefix: string = 'xflow'): string {
+  const prefix = `${taskQueuePrefix}-`;
+  return temporalWorkflowId.startsWith(prefix) ? temporalWorkflowId.slice(prefix.length) : temporalWorkflowId;
+}
 
 /**
  * Executes workflows by orchestrating function calls across distributed worker stages
@@ -17,65 +52,312 @@ export class WorkflowExecutor {
   }
 
   /**
-   * Execute a workflow specification
+   * Start a workflow without waiting for it to finish
+   * If a workflow with the same ID already exists, `options.idConflictPolicy`
+   * decides whether to fail, attach to it, or start again after a failed run.
    */
-  async execute(workflowId: string, spec: WorkflowSpec): Promise<{
-    status: 'COMPLETED' | 'FAILED';
-    stages: WorkflowExecutionStage[];
-    error?: string;
-  }> {
+  async start(workflowId: string, spec: WorkflowSpec, options: XFlowStartOptions = {}): Promise<XFlowWorkflowHandle> {
     console.log(`🎯 Starting workflow execution: ${spec.name} (${workflowId})`);
 
+    const client = await this.getClient();
+
     try {
-      const client = await this.getClient();
+      const handle = await client.start('executeDistributedWorkflow', {
+        ...this.buildStartOptions(workflowId, spec, options),
+        workflowIdReusePolicy: WorkflowIdReusePolicy.REJECT_DUPLICATE
+      });
 
-      const input: InternalWorkflowInput = {
-        workflowId,
-        spec
-      };
+      console.log(`📋 Workflow started with Temporal ID: ${handle.workflowId}`);
+      return new WorkflowRunHandle(workflowId, handle, this, spec);
+    } catch (error) {
+      if (!(error instanceof WorkflowExecutionAlreadyStartedError)) {
+        throw error;
+      }
+      return this.resolveIdConflict(workflowId, spec, options);
+    }
+  }
+
+  /**
+   * Handle a start request for a workflow ID that is already taken
+   */
+  private async resolveIdConflict(
+    workflowId: string,
+    spec: WorkflowSpec,
+    options: XFlowStartOptions
+  ): Promise<XFlowWorkflowHandle> {
+    const client = await this.getClient();
+    const existing = client.getHandle(toTemporalWorkflowId(workflowId, this.connectionManager.getTaskQueuePrefix()));
+    const policy = options.idConflictPolicy ?? 'reject';
+
+    if (policy === 'attach') {
+      console.log(`🔗 Attaching to existing workflow ${workflowId}`);
+      return new WorkflowRunHandle(workflowId, existing, this);
+    }
 
+    if (policy === 'allowIfFailed' && await this.previousRunFailed(existing)) {
+      console.log(`🔁 Previous run of workflow ${workflowId} failed, starting it again`);
       const handle = await client.start('executeDistributedWorkflow', {
-        args: [input],
-        taskQueue: 'xflow-orchestration-queue',
-        workflowId: `xflow-${workflowId}`,
-        workflowRunTimeout: '1 hour',
-        workflowTaskTimeout: '1 minute'
+        ...this.buildStartOptions(workflowId, spec, options),
+        workflowIdReusePolicy: WorkflowIdReusePolicy.ALLOW_DUPLICATE
       });
+      return new WorkflowRunHandle(workflowId, handle, this, spec);
+    }
 
-      console.log(`📋 Workflow started with Temporal ID: ${handle.workflowId}`);
+    throw new WorkflowIdConflictError(workflowId, policy);
+  }
 
-      const result = await handle.result();
-      const stages = this.convertStageResults(result, spec);
-      const allCompleted = stages.every(stage => stage.status === StageStatus.COMPLETED);
-      
-      console.log(`✅ Workflow ${spec.name} ${allCompleted ? 'completed' : 'failed'}`);
-      
-      return {
-        status: allCompleted ? 'COMPLETED' : 'FAILED',
-        stages,
-        error: allCompleted ? undefined : 'One or more stages failed'
-      };
+  /**
+   * Check whether the latest run of a workflow failed
+   * Runs that completed with failed stages count as failed too.
+   */
+  private async previousRunFailed(handle: WorkflowHandle): Promise<boolean> {
+    const description = await handle.describe();
+
+    if (description.status.name === 'RUNNING') {
+      return false;
+    }
+    if (description.status.name !== 'COMPLETED') {
+      return true; // Failed, cancelled, terminated or timed out
+    }
+
+    const output: InternalWorkflowOutput = await handle.result();
+    return output.status === 'FAILED';
+  }
+
+  /**
+   * Build the Temporal options that start the orchestration workflow for a spec
+   * Shared by direct starts and schedules so every run gets the same input.
+   * Timeouts and the deadline in `options` take precedence over the spec's.
+   */
+  buildStartOptions(workflowId: string, spec: WorkflowSpec, options: XFlowStartOptions = {}) {
+    const taskQueuePrefix = this.connectionManager.getTaskQueuePrefix();
+    const workflowInput: InternalWorkflowInput = {
+      workflowId,
+      taskQueuePrefix,
+      hooksKey: getHooksKey(spec, workflowId),
+      spec: this.toWorkflowSpec(spec),
+      routes: this.resolveRoutes(spec, taskQueuePrefix),
+      input: options.input
+    };
+
+    if (options.deadline instanceof Date) {
+      workflowInput.deadlineAt = options.deadline.getTime();
+    } else if (options.deadline !== undefined) {
+      workflowInput.deadline = options.deadline;
+    }
+
+    const executionTimeout = options.executionTimeout ?? spec.executionTimeout;
+    // Without any timeout or deadline a stuck run would never end, so runs keep
+    // their 1 hour default. A deadline ends the stages itself and may be longer.
+    const hasDeadline = options.deadline !== undefined || spec.deadline !== undefined;
+    const runTimeout = options.runTimeout ?? spec.runTimeout ?? (executionTimeout || hasDeadline ? undefined : '1 hour');
+
+    return {
+      args: [workflowInput] as [InternalWorkflowInput],
+      taskQueue: getOrchestrationTaskQueue(taskQueuePrefix),
+      workflowId: toTemporalWorkflowId(workflowId, taskQueuePrefix),
+      workflowExecutionTimeout: executionTimeout as Duration | undefined,
+      workflowRunTimeout: runTimeout as Duration | undefined,
+      workflowTaskTimeout: '1 minute' as const,
+      memo: {
+        [WORKFLOW_NAME_MEMO]: spec.name,
+        ...(spec.version !== undefined ? { [WORKFLOW_VERSION_MEMO]: spec.version } : {})
+      }
+    };
+  }
 
+  /**
+   * Get a handle to a workflow started earlier, possibly by another process
+   */
+  async getHandle(workflowId: string): Promise<XFlowWorkflowHandle> {
+    const client = await this.getClient();
+    const handle = client.getHandle(toTemporalWorkflowId(workflowId, this.connectionManager.getTaskQueuePrefix()));
+    return new WorkflowRunHandle(workflowId, handle, this);
+  }
+
+  /**
+   * Execute a workflow specification and wait for its result
+   */
+  async execute(workflowId: string, spec: WorkflowSpec, options: XFlowStartOptions = {}): Promise<WorkflowResult> {
+    const startTime = Date.now();
+
+    try {
+      const handle = await this.start(workflowId, spec, options);
+      return await handle.result();
     } catch (error) {
+      if (error instanceof WorkflowIdConflictError) {
+        throw error;
+      }
+
       console.error(`❌ Workflow execution failed: ${spec.name}`, error);
-      
-      const stages = spec.stages.map(stage => ({
-        ...stage,
-        status: StageStatus.FAILED,
-        startTime: new Date(),
-        endTime: new Date(),
-        error: `Workflow failed: ${error}`,
-        executedBy: 'none'
-      }));
+      return this.buildFailedResult(workflowId, spec, error, Date.now() - startTime);
+    }
+  }
+
+  /**
+   * Wait for a started workflow and convert its output into a WorkflowResult
+   * The spec is optional - the workflow output carries its own copy
+   */
+  async waitForResult(workflowId: string, handle: WorkflowHandle, spec?: WorkflowSpec): Promise<WorkflowResult> {
+    try {
+      const output: InternalWorkflowOutput = await handle.result();
+      const stages = this.convertStageResults(output.results, output.spec);
+
+      console.log(`✅ Workflow ${output.spec.name} finished with status ${output.status}`);
 
       return {
-        status: 'FAILED',
+        workflowId,
+        workflowName: output.spec.name,
+        workflowVersion: output.spec.version,
+        status: output.status,
         stages,
-        error: `Workflow execution failed: ${error}`
+        skippedStages: stages
+          .filter(stage => stage.status === StageStatus.SKIPPED)
+          .map(stage => stage.id),
+        cutOffStages: stages
+          .filter(stage => stage.status === StageStatus.CANCELLED)
+          .map(stage => stage.id),
+        compensations: output.compensations.map(compensation => ({
+          ...compensation,
+          startTime: new Date(compensation.startTime),
+          endTime: new Date(compensation.endTime)
+        })),
+        duration: new Date(output.endTime).getTime() - new Date(output.startTime).getTime(),
+        error: output.deadlineExceeded
+          ? 'Workflow deadline exceeded'
+          : output.status === 'COMPLETED' ? undefined : 'One or more stages failed'
       };
+    } catch (error) {
+      console.error(`❌ Workflow execution failed: ${spec?.name ?? workflowId}`, error);
+
+      let duration = 0;
+      try {
+        const description = await handle.describe();
+        duration = (description.closeTime ?? new Date()).getTime() - description.startTime.getTime();
+      } catch {
+        // Keep duration at 0 if the run cannot be described
+      }
+
+      return this.buildFailedResult(workflowId, spec, error, duration);
     }
   }
 
+  /**
+   * Query the live per-stage state of a running workflow
+   */
+  async getProgress(handle: WorkflowHandle): Promise<WorkflowExecutionStage[]> {
+    const stages = await handle.query(progressQuery);
+
+    // Dates arrive as ISO strings after serialization
+    return stages.map(stage => ({
+      ...stage,
+      startTime: stage.startTime ? new Date(stage.startTime) : undefined,
+      endTime: stage.endTime ? new Date(stage.endTime) : undefined
+    }));
+  }
+
+  /**
+   * Build the result of a workflow that failed as a whole (rather than stage by stage)
+   */
+  private buildFailedResult(
+    workflowId: string,
+    spec: WorkflowSpec | undefined,
+    error: unknown,
+    duration: number
+  ): WorkflowResult {
+    const stages = (spec?.stages ?? []).map(stage => ({
+      ...stage,
+      status: StageStatus.FAILED,
+      startTime: new Date(),
+      endTime: new Date(),
+      error: `Workflow failed: ${error}`,
+      executedBy: 'none'
+    }));
+
+    return {
+      workflowId,
+      workflowName: spec?.name,
+      workflowVersion: spec?.version,
+      status: 'FAILED',
+      stages,
+      skippedStages: [],
+      cutOffStages: [],
+      compensations: [],
+      duration,
+      error: `Workflow execution failed: ${error}`
+    };
+  }
+
+  /**
+   * Resolve the route of every function used by the spec
+   * The routing table travels in the workflow input so the orchestration
+   * workflow never has to consult the (process-global) registry
+   */
+  private resolveRoutes(spec: WorkflowSpec, taskQueuePrefix: string): Record<string, FunctionRoute> {
+    const routes: Record<string, FunctionRoute> = {};
+
+    const addRoute = (functionName: string) => {
+      if (routes[functionName]) {
+        return;
+      }
+
+      const route = registry.getFunctionRoute(functionName, taskQueuePrefix);
+      if (!route) {
+        throw new Error(`Function '${functionName}' not found in registry`);
+      }
+      routes[functionName] = route;
+
+      // Compensations run on workers too, so they need routes of their own
+      if (route.compensate) {
+        addRoute(route.compensate);
+      }
+    };
+
+    const addStageRoutes = (stages: WorkflowSpec['stages']) => {
+      stages.forEach(stage => {
+        if (stage.function) {
+          addRoute(stage.function);
+        }
+        if (stage.compensate) {
+          addRoute(stage.compensate.function);
+        }
+        // Child workflows share the parent's routing table
+        if (stage.workflow && typeof stage.workflow !== 'string') {
+          addStageRoutes(stage.workflow.stages);
+        }
+      });
+    };
+
+    addStageRoutes(spec.stages);
+    return routes;
+  }
+
+  /**
+   * Prepare a spec for the workflow input
+   * Zod schemas and hooks cannot be serialized, so they are stripped here -
+   * signal payloads are validated by the client that sends the signal instead,
+   * and hooks run from the hook registry of the orchestration worker
+   */
+  private toWorkflowSpec(spec: WorkflowSpec): WorkflowSpec {
+    const serializable = { ...spec };
+    delete serializable.hooks;
+    return {
+      ...serializable,
+      stages: spec.stages.map(stage => {
+        let prepared = stage;
+        if (stage.signal?.schema) {
+          const signal = { ...stage.signal };
+          delete signal.schema;
+          prepared = { ...prepared, signal };
+        }
+        if (stage.workflow && typeof stage.workflow !== 'string') {
+          prepared = { ...prepared, workflow: this.toWorkflowSpec(stage.workflow) };
+        }
+        return prepared;
+      })
+    };
+  }
+
   private async getClient(): Promise<WorkflowClient> {
     if (this.client) {
       return this.client;
@@ -84,7 +366,7 @@ export class WorkflowExecutor {
     const connection = await this.connectionManager.getConnection();
     this.client = new WorkflowClient({
       connection,
-      namespace: 'default'
+      namespace: this.connectionManager.getNamespace()
     });
 
     return this.client;
@@ -110,12 +392,16 @@ export class WorkflowExecutor {
 
       return {
         ...originalStage,
-        status: result.status === 'COMPLETED' ? StageStatus.COMPLETED : StageStatus.FAILED,
-        startTime: result.startTime,
-        endTime: result.endTime,
+        status: toStageStatus(result.status),
+        startTime: new Date(result.startTime),
+        endTime: new Date(result.endTime),
         result: result.result,
         error: result.error,
-        executedBy: result.executedBy
+        skipReason: result.skipReason,
+        executedBy: result.executedBy,
+        childStages: result.childResults && typeof originalStage.workflow === 'object'
+          ? this.convertStageResults(result.childResults, originalStage.workflow)
+          : undefined
       };
     });
   }
@@ -131,119 +417,3 @@ export class WorkflowExecutor {
     }
   }
 }
-
-/**
- * Distributed workflow implementation for Temporal
- */
-export async function executeDistributedWorkflow(input: InternalWorkflowInput): Promise<InternalStageResult[]> {
-  const { workflowId, spec } = input;
-  const results: InternalStageResult[] = [];
-  const completedStages = new Set<string>();
-  
-  console.log(`Starting distributed workflow execution: ${workflowId} - ${spec.name}`);
-  
-  const stageMap = new Map<string, any>();
-  spec.stages.forEach((stage: WorkflowStage) => stageMap.set(stage.id, stage));
-  
-  while (completedStages.size < spec.stages.length) {
-    const readyStages = spec.stages.filter((stage: WorkflowStage) => {
-      if (completedStages.has(stage.id)) return false;
-      if (!stage.dependsOn || stage.dependsOn.length === 0) return true;
-      return stage.dependsOn.every((depId: string) => completedStages.has(depId));
-    });
-    
-    if (readyStages.length === 0) {
-      throw new Error('Circular dependency detected or no stages ready to execute');
-    }
-    
-    const stagePromises = readyStages.map(async (stage: WorkflowStage): Promise<InternalStageResult> => {
-      const startTime = new Date();
-      
-      try {
-        console.log(`Executing stage: ${stage.id} - ${stage.function}`);
-        
-        const workerStage = registry.getStageForFunction(stage.function);
-        if (!workerStage) {
-          throw new Error(`Function '${stage.function}' not found in registry`);
-        }
-        
-        const result = await executeOnWorkerStage(workerStage, stage.function, stage.params);
-        const endTime = new Date();
-        
-        console.log(`Stage ${stage.id} completed successfully on worker ${workerStage}`);
-        
-        return {
-          stageId: stage.id,
-          status: 'COMPLETED',
-          result,
-          startTime,
-          endTime,
-          executedBy: `stage${workerStage}`
-        };
-      } catch (error: any) {
-        const endTime = new Date();
-        console.error(`Stage ${stage.id} failed:`, error);
-        
-        return {
-          stageId: stage.id,
-          status: 'FAILED',
-          error: error.message,
-          startTime,
-          endTime,
-          executedBy: 'unknown'
-        };
-      }
-    });
-    
-    const stageResults = await Promise.all(stagePromises);
-    
-    stageResults.forEach(result => {
-      results.push(result);
-      if (result.status === 'COMPLETED') {
-        completedStages.add(result.stageId);
-      }
-    });
-    
-    const failedResults = stageResults.filter(r => r.status === 'FAILED');
-    if (failedResults.length > 0) {
-      console.error(`Workflow ${workflowId} failed due to stage failures:`, failedResults);
-      const remainingStages = spec.stages.filter((stage: WorkflowStage) => !completedStages.has(stage.id));
-      remainingStages.forEach((stage: WorkflowStage) => {
-        if (!stageResults.some(r => r.stageId === stage.id)) {
-          results.push({
-            stageId: stage.id,
-            status: 'FAILED',
-            error: 'Dependency stage failed',
-            startTime: new Date(),
-            endTime: new Date(),
-            executedBy: 'none'
-          });
-        }
-      });
-      break;
-    }
-  }
-  
-  console.log(`Distributed workflow ${workflowId} execution completed`);
-  return results;
-}
-
-/**
- * Execute a function on the appropriate worker stage using Temporal's proxyActivities
- */
-async function executeOnWorkerStage(
-  workerStage: number, 
-  functionName: string, 
-  params: Record<string, any>
-): Promise<any> {
-  const { proxyActivities } = await import('@temporalio/workflow');
-  
-  const activities = proxyActivities<Record<string, any>>({
-    startToCloseTimeout: '5 minutes',
-    heartbeatTimeout: '30 seconds',
-    taskQueue: `xflow-stage${workerStage}-queue`,
-  });
-  
-  const executorName = `executeStage${workerStage}Activity`;
-  return await activities[executorName](functionName, params);
-} 
\ No newline at end of file
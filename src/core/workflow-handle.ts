@@ -0,0 +1,117 @@
+// Workflow handle for XFlow SDK
+// Lets clients follow, inspect and stop a workflow without blocking on it
+
+import { WorkflowHandle } from '@temporalio/client';
+import {
+  WorkflowExecutionStage,
+  WorkflowResult,
+  WorkflowSpec,
+  XFlowWorkflowDescription,
+  XFlowWorkflowHandle
+} from '../types/index';
+import type { WorkflowExecutor } from './workflow-executor';
+import { workflowRegistry } from './workflow-registry';
+import { formatSchemaIssues } from './spec-validator';
+
+/**
+ * Memo keys recording which spec a workflow run executes
+ */
+export const WORKFLOW_NAME_MEMO = 'xflowWorkflowName';
+export const WORKFLOW_VERSION_MEMO = 'xflowWorkflowVersion';
+
+/**
+ * XFlow view of a single Temporal workflow execution
+ */
+export class WorkflowRunHandle implements XFlowWorkflowHandle {
+  readonly workflowId: string;
+  private handle: WorkflowHandle;
+  private executor: WorkflowExecutor;
+  private spec?: WorkflowSpec;
+
+  constructor(workflowId: string, handle: WorkflowHandle, executor: WorkflowExecutor, spec?: WorkflowSpec) {
+    this.workflowId = workflowId;
+    this.handle = handle;
+    this.executor = executor;
+    this.spec = spec;
+  }
+
+  /**
+   * Wait for the workflow to finish and return its result
+   */
+  async result(): Promise<WorkflowResult> {
+    return this.executor.waitForResult(this.workflowId, this.handle, this.spec);
+  }
+
+  /**
+   * Get the live state of every stage while the workflow runs
+   */
+  async progress(): Promise<WorkflowExecutionStage[]> {
+    return this.executor.getProgress(this.handle);
+  }
+
+  /**
+   * Get the current status of the workflow run
+   */
+  async describe(): Promise<XFlowWorkflowDescription> {
+    const description = await this.handle.describe();
+    const workflowName = description.memo?.[WORKFLOW_NAME_MEMO];
+    const workflowVersion = description.memo?.[WORKFLOW_VERSION_MEMO];
+
+    return {
+      workflowId: this.workflowId,
+      workflowName: typeof workflowName === 'string' ? workflowName : undefined,
+      workflowVersion: typeof workflowVersion === 'string' ? workflowVersion : undefined,
+      runId: description.runId,
+      status: description.status.name,
+      startTime: description.startTime,
+      closeTime: description.closeTime
+    };
+  }
+
+  /**
+   * Look up the registered spec version this run executes, if any
+   */
+  private async getRegisteredSpec(): Promise<WorkflowSpec | undefined> {
+    const { workflowName, workflowVersion } = await this.describe();
+    return workflowName !== undefined && workflowVersion !== undefined
+      ? workflowRegistry.get(workflowName, workflowVersion)
+      : undefined;
+  }
+
+  /**
+   * Request cancellation of the workflow
+   */
+  async cancel(): Promise<void> {
+    await this.handle.cancel();
+    console.log(`🛑 Cancellation requested for workflow ${this.workflowId}`);
+  }
+
+  /**
+   * Send a signal to the workflow
+   * The payload is checked against the schema of the stage waiting for the
+   * signal when the run's spec is known: the spec it was started with from this
+   * handle, else the registered version named in the run's memo.
+   */
+  async signal(signalName: string, payload?: any): Promise<void> {
+    const spec = this.spec ?? await this.getRegisteredSpec();
+    const schema = spec?.stages.find(stage => stage.signal?.name === signalName)?.signal?.schema;
+    if (schema) {
+      const parsed = schema.safeParse(payload);
+      if (!parsed.success) {
+        throw new Error(`Invalid payload for signal '${signalName}': ${formatSchemaIssues(parsed.error)}`);
+      }
+      payload = parsed.data;
+    }
+
+    await this.handle.signal(signalName, payload);
+    console.log(`📨 Signal '${signalName}' sent to workflow ${this.workflowId}`);
+  }
+
+  /**
+   * Stop the workflow immediately
+   */
+  async terminate(reason?: string): Promise<void> {
+    await this.handle.terminate(reason);
+    console.log(`🛑 Workflow ${this.workflowId} terminated${reason ? `: ${reason}` : ''}`);
+  }
+}
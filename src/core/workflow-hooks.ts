@@ -0,0 +1,163 @@
+// Workflow lifecycle hooks for XFlow SDK
+// Keeps the hooks of this process and runs them for events reported by the orchestration workflow
+
+import { WorkflowSpec, XFlowWorkflowHooks, XFlowWorkflowHookContext } from '../types/index';
+import { WorkflowHookEvent } from '../types/internal';
+
+/**
+ * Registry of workflow lifecycle hooks
+ *
+ * Hook functions cannot travel in the workflow input, so the orchestration
+ * workflow reports lifecycle events through a local activity and the hooks
+ * registered here, in the process running the orchestration worker, handle them.
+ */
+class WorkflowHookRegistry {
+  private globalHooks: XFlowWorkflowHooks[] = [];
+  private specHooks: Map<string, XFlowWorkflowHooks> = new Map();
+  private runKeys: Set<string> = new Set(); // Keys of hooks that belong to a single run
+
+  /**
+   * Add hooks that run for every workflow
+   */
+  add(hooks: XFlowWorkflowHooks): void {
+    this.globalHooks.push(hooks);
+  }
+
+  /**
+   * Set the hooks of a spec and of its sub-workflows under a hooks key
+   * The spec replaces whatever was set under the key before, so a spec without
+   * hooks clears them. Sub-workflows get the key followed by their stage ID.
+   * Returns whether the spec or one of its sub-workflows has hooks.
+   */
+  addSpecHooks(key: string, spec: WorkflowSpec): boolean {
+    if (spec.hooks) {
+      this.specHooks.set(key, spec.hooks);
+    } else {
+      this.specHooks.delete(key);
+    }
+
+    let hasHooks = spec.hooks !== undefined;
+    spec.stages.forEach(stage => {
+      if (stage.workflow && typeof stage.workflow !== 'string') {
+        hasHooks = this.addSpecHooks(getChildHooksKey(key, stage.id), stage.workflow) || hasHooks;
+      }
+    });
+    return hasHooks;
+  }
+
+  /**
+   * Set the hooks of a spec for a single run; they are dropped when the run finishes
+   */
+  addRunHooks(key: string, spec: WorkflowSpec): void {
+    if (this.addSpecHooks(key, spec)) {
+      this.runKeys.add(key);
+    }
+  }
+
+  /**
+   * Drop the hooks of a single run and of its sub-workflows
+   */
+  removeRunHooks(key: string): void {
+    if (!this.runKeys.delete(key)) {
+      return;
+    }
+
+    const childPrefix = getChildHooksKey(key, '');
+    [...this.specHooks.keys()]
+      .filter(hooksKey => hooksKey === key || hooksKey.startsWith(childPrefix))
+      .forEach(hooksKey => this.specHooks.delete(hooksKey));
+  }
+
+  /**
+   * Run the hooks for a lifecycle event; a failing hook does not stop the others
+   * Returns whether the run still wants events, so runs without hooks stop reporting.
+   */
+  async run(event: WorkflowHookEvent): Promise<boolean> {
+    const specHooks = event.hooksKey !== undefined ? this.specHooks.get(event.hooksKey) : undefined;
+    const hooks = [...this.globalHooks, ...(specHooks ? [specHooks] : [])];
+    const finished = event.hook === 'onWorkflowComplete' || event.hook === 'onWorkflowFail';
+    // Runs whose sub-workflows have hooks still need their final event to drop them
+    const wanted = hooks.length > 0 || (event.hooksKey !== undefined && this.runKeys.has(event.hooksKey));
+
+    try {
+      if (hooks.length > 0) {
+        await this.runHooks(event, hooks);
+      }
+    } finally {
+      if (finished && event.hooksKey !== undefined) {
+        this.removeRunHooks(event.hooksKey);
+      }
+    }
+    return wanted;
+  }
+
+  /**
+   * Call the handlers of an event in the order their hooks were added
+   */
+  private async runHooks(event: WorkflowHookEvent, hooks: XFlowWorkflowHooks[]): Promise<void> {
+    const { hook, ...details } = event;
+    delete details.hooksKey;
+
+    // Dates arrive as ISO strings after serialization
+    const startTime = new Date(details.startTime);
+    const endTime = details.endTime ? new Date(details.endTime) : undefined;
+    const context: XFlowWorkflowHookContext = {
+      ...details,
+      startTime,
+      endTime,
+      duration: endTime ? endTime.getTime() - startTime.getTime() : undefined
+    };
+
+    for (const hookSet of hooks) {
+      const handler = hookSet[hook];
+      if (!handler) {
+        continue;
+      }
+
+      try {
+        await handler(context);
+      } catch (hookError) {
+        console.error(`Error in ${hook} hook of workflow ${event.workflowId}:`, hookError);
+      }
+    }
+  }
+
+  /**
+   * Remove all hooks (for testing)
+   */
+  clear(): void {
+    this.globalHooks = [];
+    this.specHooks.clear();
+    this.runKeys.clear();
+  }
+}
+
+/**
+ * Key under which the hooks of a run are kept
+ * Registered versions of a spec share their hooks; the hooks of any other spec
+ * belong to the run (or schedule) started from it, so specs that share a name
+ * never see each other's hooks.
+ */
+export function getHooksKey(spec: Pick<WorkflowSpec, 'name' | 'version'>, workflowId: string): string {
+  return spec.version !== undefined ? `spec:${spec.name}@${spec.version}` : `run:${workflowId}`;
+}
+
+/**
+ * Key of the hooks of a sub-workflow stage
+ */
+export function getChildHooksKey(key: string, stageId: string): string {
+  return `${key}/${stageId}`;
+}
+
+// Global singleton workflow hook registry instance
+export const workflowHooks = new WorkflowHookRegistry();
+
+/**
+ * Activities of the orchestration worker that run the workflow hooks
+ */
+export const workflowHookActivities = {
+  runWorkflowHooks: (event: WorkflowHookEvent): Promise<boolean> => workflowHooks.run(event)
+};
+
+// Export the class for testing
+export { WorkflowHookRegistry };
@@ -0,0 +1,159 @@
+// Workflow registry for XFlow SDK
+// Keeps named, versioned workflow specs that can be run by name or as sub-workflows
+
+import { WorkflowSpec, WorkflowSpecIssue, XFlowRegisteredWorkflow } from '../types/index';
+import { WorkflowValidationError } from './errors';
+import { validateWorkflowSpec, formatPath } from './spec-validator';
+
+/**
+ * Registry of reusable workflow specs, keyed by spec name and version
+ */
+class WorkflowSpecRegistry {
+  private specs: Map<string, Map<string, WorkflowSpec>> = new Map();
+
+  /**
+   * Register a version of a spec (default: the spec's own version, else '1')
+   * The spec is validated on registration; the specs it references by name may
+   * be registered later. Returns the registered spec, with its version set.
+   */
+  register(spec: WorkflowSpec, version: string = spec.version ?? '1'): WorkflowSpec {
+    const validation = validateWorkflowSpec(spec);
+    if (!validation.valid) {
+      throw new WorkflowValidationError(spec.name, validation.issues);
+    }
+
+    const versions = this.specs.get(spec.name) ?? new Map<string, WorkflowSpec>();
+    if (versions.has(version)) {
+      throw new Error(`Workflow version conflict: '${spec.name}' version ${version} is already registered`);
+    }
+
+    const registered = { ...spec, version };
+    versions.set(version, registered);
+    this.specs.set(spec.name, versions);
+
+    console.log(`[XFlow Registry] Registered workflow '${spec.name}' version ${version}`);
+    return registered;
+  }
+
+  /**
+   * Get a registered spec by name, in the given version or else the latest one
+   */
+  get(name: string, version?: string): WorkflowSpec | undefined {
+    const versions = this.specs.get(name);
+    if (!versions) {
+      return undefined;
+    }
+
+    if (version !== undefined) {
+      return versions.get(version);
+    }
+
+    const latest = this.getVersions(name).pop();
+    return latest !== undefined ? versions.get(latest) : undefined;
+  }
+
+  /**
+   * Get the registered versions of a spec, oldest first
+   * Versions are compared with numeric awareness, so '10' comes after '9'.
+   */
+  getVersions(name: string): string[] {
+    return Array.from(this.specs.get(name)?.keys() ?? []).sort(compareVersions);
+  }
+
+  /**
+   * List every registered spec with its versions
+   */
+  list(): XFlowRegisteredWorkflow[] {
+    return Array.from(this.specs.keys()).map(name => {
+      const versions = this.getVersions(name);
+      const latestVersion = versions[versions.length - 1];
+
+      return {
+        name,
+        description: this.specs.get(name)!.get(latestVersion)!.description,
+        versions,
+        latestVersion
+      };
+    });
+  }
+
+  /**
+   * Replace every sub-workflow referenced by name with its registered spec
+   * References are `'name'` (latest version) or `'name@version'`. The
+   * orchestration workflow cannot consult this registry, so named specs are
+   * inlined on the client before the workflow starts.
+   */
+  resolve(spec: WorkflowSpec): WorkflowSpec {
+    const issues: WorkflowSpecIssue[] = [];
+    const resolved = this.resolveSpec(spec, ['stages'], [spec.name], issues);
+
+    if (issues.length > 0) {
+      throw new WorkflowValidationError(spec.name, issues);
+    }
+
+    return resolved;
+  }
+
+  private resolveSpec(
+    spec: WorkflowSpec,
+    path: Array<string | number>,
+    trail: string[],
+    issues: WorkflowSpecIssue[]
+  ): WorkflowSpec {
+    return {
+      ...spec,
+      stages: spec.stages.map((stage, index) => {
+        if (stage.workflow === undefined) {
+          return stage;
+        }
+
+        const stagePath = [...path, index, 'workflow'];
+        let child = stage.workflow;
+
+        if (typeof child === 'string') {
+          const [name, version] = parseWorkflowReference(child);
+          const registered = this.get(name, version);
+          if (!registered) {
+            issues.push({ path: formatPath(stagePath), message: `unknown workflow '${child}'` });
+            return stage;
+          }
+          if (trail.includes(name)) {
+            issues.push({
+              path: formatPath(stagePath),
+              message: `workflow '${name}' includes itself: ${[...trail, name].join(' -> ')}`
+            });
+            return stage;
+          }
+          child = registered;
+        }
+
+        return { ...stage, workflow: this.resolveSpec(child, [...stagePath, 'stages'], [...trail, child.name], issues) };
+      })
+    };
+  }
+
+  /**
+   * Remove all registered specs (for testing)
+   */
+  clear(): void {
+    this.specs.clear();
+  }
+}
+
+/**
+ * Split a sub-workflow reference such as `'Notify Customer@2'` into name and version
+ */
+function parseWorkflowReference(reference: string): [string, string | undefined] {
+  const separator = reference.lastIndexOf('@');
+  return separator > 0 ? [reference.slice(0, separator), reference.slice(separator + 1)] : [reference, undefined];
+}
+
+function compareVersions(a: string, b: string): number {
+  return a.localeCompare(b, undefined, { numeric: true });
+}
+
+// Global singleton workflow registry instance
+export const workflowRegistry = new WorkflowSpecRegistry();
+
+// Export the class for testing
+export { WorkflowSpecRegistry };
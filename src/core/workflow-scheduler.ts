@@ -0,0 +1,178 @@
+// Workflow scheduler for XFlow SDK
+// Runs workflows on a cron or interval using Temporal Schedules
+
+import {
+  ScheduleClient,
+  ScheduleOverlapPolicy,
+  ScheduleSummary,
+  ScheduleDescription,
+  ScheduleSpec
+} from '@temporalio/client';
+import {
+  WorkflowSpec,
+  XFlowScheduleOptions,
+  XFlowScheduleOverlapPolicy,
+  XFlowScheduleDescription
+} from '../types/index';
+import { ConnectionManager } from './connection-manager';
+import { WorkflowExecutor, toTemporalWorkflowId, fromTemporalWorkflowId } from './workflow-executor';
+import { WORKFLOW_NAME_MEMO } from './workflow-handle';
+
+type Duration = NonNullable<ScheduleSpec['jitter']>;
+
+const OVERLAP_POLICIES: Record<XFlowScheduleOverlapPolicy, ScheduleOverlapPolicy> = {
+  skip: ScheduleOverlapPolicy.SKIP,
+  bufferOne: ScheduleOverlapPolicy.BUFFER_ONE,
+  bufferAll: ScheduleOverlapPolicy.BUFFER_ALL,
+  cancelOther: ScheduleOverlapPolicy.CANCEL_OTHER,
+  terminateOther: ScheduleOverlapPolicy.TERMINATE_OTHER,
+  allowAll: ScheduleOverlapPolicy.ALLOW_ALL
+};
+
+/**
+ * Creates and manages Temporal Schedules that start XFlow workflows
+ *
+ * Every run starts the same orchestration workflow as `executeWorkflow`, with
+ * the workflow ID `<scheduleId>-<start time>`, so its result can be collected
+ * with a workflow handle like any other run.
+ */
+export class WorkflowScheduler {
+  private connectionManager: ConnectionManager;
+  private workflowExecutor: WorkflowExecutor;
+  private client: ScheduleClient | null = null;
+
+  constructor(connectionManager: ConnectionManager, workflowExecutor: WorkflowExecutor) {
+    this.connectionManager = connectionManager;
+    this.workflowExecutor = workflowExecutor;
+  }
+
+  /**
+   * Create a schedule that runs the spec
+   */
+  async schedule(scheduleId: string, spec: WorkflowSpec, options: XFlowScheduleOptions): Promise<void> {
+    if (!options.cron && !options.interval) {
+      throw new Error('A schedule needs a cron expression or an interval');
+    }
+
+    const client = await this.getClient();
+
+    await client.create({
+      scheduleId: this.toTemporalScheduleId(scheduleId),
+      spec: {
+        cronExpressions: options.cron ? [options.cron] : undefined,
+        intervals: options.interval ? [{ every: options.interval as Duration }] : undefined,
+        jitter: options.jitter as Duration | undefined,
+        startAt: options.startAt,
+        endAt: options.endAt
+      },
+      action: {
+        type: 'startWorkflow',
+        workflowType: 'executeDistributedWorkflow',
+        ...this.workflowExecutor.buildStartOptions(scheduleId, spec)
+      },
+      policies: {
+        overlap: OVERLAP_POLICIES[options.overlapPolicy ?? 'skip']
+      },
+      memo: { [WORKFLOW_NAME_MEMO]: spec.name }
+    });
+
+    console.log(`📅 Workflow ${spec.name} scheduled (ID: ${scheduleId})`);
+  }
+
+  /**
+   * List the schedules that run XFlow workflows with this task queue prefix
+   */
+  async list(): Promise<XFlowScheduleDescription[]> {
+    const client = await this.getClient();
+    const schedules: XFlowScheduleDescription[] = [];
+    const scheduleIdPrefix = this.toTemporalScheduleId('');
+
+    for await (const summary of client.list()) {
+      if (summary.action?.workflowType === 'executeDistributedWorkflow' && summary.scheduleId.startsWith(scheduleIdPrefix)) {
+        schedules.push(this.toDescription(summary));
+      }
+    }
+
+    return schedules;
+  }
+
+  /**
+   * Get the current state of a schedule
+   */
+  async describe(scheduleId: string): Promise<XFlowScheduleDescription> {
+    const client = await this.getClient();
+    const description = await client.getHandle(this.toTemporalScheduleId(scheduleId)).describe();
+    return this.toDescription(description);
+  }
+
+  /**
+   * Stop starting new runs until the schedule is resumed
+   */
+  async pause(scheduleId: string, note?: string): Promise<void> {
+    const client = await this.getClient();
+    await client.getHandle(this.toTemporalScheduleId(scheduleId)).pause(note);
+    console.log(`⏸️  Schedule ${scheduleId} paused`);
+  }
+
+  /**
+   * Start runs again after a pause
+   */
+  async resume(scheduleId: string, note?: string): Promise<void> {
+    const client = await this.getClient();
+    await client.getHandle(this.toTemporalScheduleId(scheduleId)).unpause(note);
+    console.log(`▶️  Schedule ${scheduleId} resumed`);
+  }
+
+  /**
+   * Start a run right away, following the schedule's overlap policy
+   */
+  async trigger(scheduleId: string): Promise<void> {
+    const client = await this.getClient();
+    await client.getHandle(this.toTemporalScheduleId(scheduleId)).trigger();
+    console.log(`⚡ Schedule ${scheduleId} triggered`);
+  }
+
+  /**
+   * Delete a schedule; runs that already started are not affected
+   */
+  async delete(scheduleId: string): Promise<void> {
+    const client = await this.getClient();
+    await client.getHandle(this.toTemporalScheduleId(scheduleId)).delete();
+    console.log(`🗑️  Schedule ${scheduleId} deleted`);
+  }
+
+  /**
+   * Schedule IDs carry the task queue prefix, like workflow IDs
+   */
+  private toTemporalScheduleId(scheduleId: string): string {
+    return toTemporalWorkflowId(scheduleId, this.connectionManager.getTaskQueuePrefix());
+  }
+
+  private toDescription(schedule: ScheduleSummary | ScheduleDescription): XFlowScheduleDescription {
+    const workflowName = schedule.memo?.[WORKFLOW_NAME_MEMO];
+    const taskQueuePrefix = this.connectionManager.getTaskQueuePrefix();
+
+    return {
+      scheduleId: fromTemporalWorkflowId(schedule.scheduleId, taskQueuePrefix),
+      workflowName: typeof workflowName === 'string' ? workflowName : undefined,
+      paused: schedule.state.paused,
+      note: schedule.state.note,
+      nextRunTimes: schedule.info.nextActionTimes,
+      recentRuns: schedule.info.recentActions.map(action => fromTemporalWorkflowId(action.action.workflow.workflowId, taskQueuePrefix))
+    };
+  }
+
+  private async getClient(): Promise<ScheduleClient> {
+    if (this.client) {
+      return this.client;
+    }
+
+    const connection = await this.connectionManager.getConnection();
+    this.client = new ScheduleClient({
+      connection,
+      namespace: this.connectionManager.getNamespace()
+    });
+
+    return this.client;
+  }
+}
@@ -2,11 +2,33 @@
 // Hides all Temporal complexity from clients
 
 import { v4 as uuidv4 } from 'uuid';
-import { XFlowConfig, WorkerConfig, WorkflowSpec, WorkflowResult, WorkerStage } from '../types/index';
+import {
+  XFlowConfig,
+  WorkerConfig,
+  WorkflowSpec,
+  WorkflowStage,
+  WorkflowResult,
+  WorkflowExecutionStage,
+  WorkerStage,
+  XFlowWorkflowHandle,
+  XFlowStartOptions,
+  XFlowNamedWorkflowOptions,
+  XFlowRegisteredWorkflow,
+  XFlowScheduleOptions,
+  XFlowScheduleDescription,
+  XFlowWorkflowHooks,
+  XFlowRole
+} from '../types/index';
 import { registry } from './registry';
 import { ConnectionManager } from './connection-manager';
 import { WorkerFactory } from './worker-factory';
 import { WorkflowExecutor } from './workflow-executor';
+import { WorkflowScheduler } from './workflow-scheduler';
+import { workflowRegistry } from './workflow-registry';
+import { workflowHooks, getHooksKey } from './workflow-hooks';
+import { getPoolTaskQueue, getPoolLabel, getOrchestrationTaskQueue } from './worker-pools';
+import { validateWorkflowSpec, validateStartOptions } from './spec-validator';
+import { WorkflowValidationError, WorkflowIdConflictError } from './errors';
 
 /**
  * Main XFlow SDK class
@@ -17,8 +39,11 @@ import { WorkflowExecutor } from './workflow-executor';
  *   temporalAddress: 'your-temporal-server.com'
  * });
  * 
- * await xflow.startWorkers();
+ * await xflow.start(); // Workers for the configured role (default: 'all')
  * const result = await xflow.executeWorkflow(workflowSpec);
+ *
+ * // Or start without blocking and collect the result later
+ * const handle = await xflow.startWorkflow(workflowSpec);
  * ```
  */
 export class XFlow {
@@ -26,14 +51,18 @@ export class XFlow {
   private connectionManager: ConnectionManager;
   private workerFactory: WorkerFactory;
   private workflowExecutor: WorkflowExecutor;
+  private workflowScheduler: WorkflowScheduler;
   private workers: Map<WorkerStage, any> = new Map(); // Store running workers
+  private orchestrationWorker: any = null;
   private isInitialized: boolean = false;
 
   constructor(config: XFlowConfig) {
     this.config = this.validateAndNormalizeConfig(config);
+    registry.declarePools(this.config.pools ?? []);
     this.connectionManager = new ConnectionManager(this.config);
     this.workerFactory = new WorkerFactory(this.connectionManager);
     this.workflowExecutor = new WorkflowExecutor(this.connectionManager);
+    this.workflowScheduler = new WorkflowScheduler(this.connectionManager, this.workflowExecutor);
   }
 
   /**
@@ -64,27 +93,104 @@ export class XFlow {
     }
   }
 
+  /**
+   * Start the workers this process is responsible for, according to `XFlowConfig.role`
+   *
+   * @example
+   * ```typescript
+   * // API server: only starts and queries workflows
+   * await createXFlow({ temporalAddress, role: 'client' }).start();
+   * // Orchestrator deployment
+   * await createXFlow({ temporalAddress, role: 'orchestrator' }).start();
+   * // PDF rendering deployment, scaled on its own
+   * await createXFlow({ temporalAddress, pools: ['pdf-rendering'], role: 'worker', workerPools: ['pdf-rendering'] }).start();
+   * ```
+   */
+  async start(): Promise<void> {
+    await this.ensureInitialized();
+
+    const role = this.getRole();
+    console.log(`🚀 Starting XFlow as ${role}...`);
+
+    try {
+      if (role === 'orchestrator' || role === 'all') {
+        await this.startOrchestrationWorker();
+      }
+
+      if (role === 'worker' || role === 'all') {
+        const pools = role === 'worker' ? this.config.workerPools ?? registry.getPools() : registry.getPools();
+        const undeclared = pools.filter(pool => !registry.isDeclaredPool(pool));
+        if (undeclared.length > 0) {
+          throw new Error(`Worker pools not declared in XFlowConfig.pools: ${undeclared.join(', ')}`);
+        }
+
+        for (const stage of pools) {
+          await this.startWorkerStage(stage, {
+            stage,
+            taskQueuePrefix: this.connectionManager.getTaskQueuePrefix(),
+            maxConcurrentActivities: 100
+          });
+        }
+      }
+
+      console.log(`✅ XFlow started as ${role}`);
+    } catch (error) {
+      console.error('❌ Failed to start workers:', error);
+      throw new Error(`Worker startup failed: ${error}`);
+    }
+  }
+
+  /**
+   * Start the orchestration worker, which runs the workflow logic
+   */
+  private async startOrchestrationWorker(): Promise<void> {
+    if (this.orchestrationWorker) {
+      return;
+    }
+
+    const worker = await this.workerFactory.createOrchestrationWorker();
+    this.orchestrationWorker = worker;
+
+    // Start the worker in the background
+    worker.run().catch((error: any) => {
+      console.error('❌ Orchestration worker crashed:', error);
+      this.orchestrationWorker = null;
+    });
+
+    console.log(`✅ Orchestration worker started on queue: ${getOrchestrationTaskQueue(this.connectionManager.getTaskQueuePrefix())}`);
+  }
+
   /**
    * Start workers for specific stages or all stages
+   * Only stage workers are started; use `start()` to run the orchestration worker as well.
    */
   async startWorkers(workerConfig?: WorkerConfig): Promise<void> {
     await this.ensureInitialized();
 
     const config = {
       stage: 'all' as WorkerStage | 'all',
-      taskQueuePrefix: 'xflow',
+      taskQueuePrefix: this.connectionManager.getTaskQueuePrefix(),
       maxConcurrentActivities: 100,
       ...workerConfig
     };
 
+    if (config.taskQueuePrefix !== this.connectionManager.getTaskQueuePrefix()) {
+      console.warn(
+        `⚠️  Workers use task queue prefix '${config.taskQueuePrefix}' but this client routes calls to ` +
+        `'${this.connectionManager.getTaskQueuePrefix()}'; set taskQueuePrefix on XFlowConfig instead`
+      );
+    }
+
     console.log('🔧 Starting XFlow workers...');
 
     try {
       if (config.stage === 'all') {
-        // Start all three worker stages
-        for (const stage of [1, 2, 3] as WorkerStage[]) {
+        // Start the default stages and every declared pool
+        for (const stage of registry.getPools()) {
           await this.startWorkerStage(stage, config);
         }
+      } else if (!registry.isDeclaredPool(config.stage)) {
+        throw new Error(`Worker pool '${config.stage}' is not declared in XFlowConfig.pools`);
       } else {
         // Start specific worker stage
         await this.startWorkerStage(config.stage, config);
@@ -101,6 +207,10 @@ export class XFlow {
    * Start a specific worker stage
    */
   private async startWorkerStage(stage: WorkerStage, config: WorkerConfig): Promise<void> {
+    if (this.workers.has(stage)) {
+      return;
+    }
+
     const functions = registry.getFunctionsByStage(stage);
     
     if (functions.length === 0) {
@@ -111,9 +221,10 @@ export class XFlow {
     console.log(`🔧 Starting worker for stage ${stage} with ${functions.length} functions:`, 
       functions.map(f => f.name));
 
+    const taskQueue = getPoolTaskQueue(stage, config.taskQueuePrefix);
     const worker = await this.workerFactory.createWorker({
       stage,
-      taskQueue: `${config.taskQueuePrefix}-stage${stage}-queue`,
+      taskQueue,
       maxConcurrentActivities: config.maxConcurrentActivities
     });
 
@@ -125,20 +236,332 @@ export class XFlow {
       this.workers.delete(stage);
     });
 
-    console.log(`✅ Worker ${stage} started on queue: ${config.taskQueuePrefix}-stage${stage}-queue`);
+    console.log(`✅ Worker ${stage} started on queue: ${taskQueue}`);
+  }
+
+  /**
+   * Start a workflow without waiting for it to finish
+   *
+   * @example
+   * ```typescript
+   * const handle = await xflow.startWorkflow(workflowSpec);
+   * // ...later, or from another process via xflow.getWorkflowHandle(handle.workflowId)
+   * const result = await handle.result();
+   *
+   * // Retrying with the same business key returns the existing run
+   * await xflow.startWorkflow(orderSpec, { workflowId: 'order-1234', idConflictPolicy: 'attach' });
+   * ```
+   */
+  async startWorkflow(spec: WorkflowSpec, options: XFlowStartOptions = {}): Promise<XFlowWorkflowHandle> {
+    const { workflowId, resolvedSpec } = await this.prepareWorkflow(spec, options);
+
+    try {
+      return await this.workflowExecutor.start(workflowId, resolvedSpec, options);
+    } catch (error) {
+      if (error instanceof WorkflowIdConflictError) {
+        throw error;
+      }
+      workflowHooks.removeRunHooks(getHooksKey(resolvedSpec, workflowId));
+      console.error(`❌ Failed to start workflow: ${spec.name}`, error);
+      throw new Error(`Workflow start failed: ${error}`);
+    }
+  }
+
+  /**
+   * Execute a workflow and wait for its result
+   * With `idConflictPolicy: 'attach'`, a call with the ID of an existing run
+   * returns that run's result instead of starting a duplicate.
+   */
+  async executeWorkflow(spec: WorkflowSpec, options: XFlowStartOptions = {}): Promise<WorkflowResult> {
+    const { workflowId, resolvedSpec } = await this.prepareWorkflow(spec, options);
+
+    try {
+      const workflowResult = await this.workflowExecutor.execute(workflowId, resolvedSpec, options);
+
+      console.log(`✅ Workflow completed: ${spec.name} in ${workflowResult.duration}ms`);
+      return workflowResult;
+    } catch (error) {
+      if (error instanceof WorkflowIdConflictError) {
+        throw error;
+      }
+      console.error(`❌ Workflow failed: ${spec.name}`, error);
+      throw new Error(`Workflow execution failed: ${error}`);
+    }
+  }
+
+  /**
+   * Start a registered workflow without waiting for it to finish
+   */
+  async startWorkflowByName(
+    name: string,
+    input?: Record<string, any>,
+    options: XFlowNamedWorkflowOptions = {}
+  ): Promise<XFlowWorkflowHandle> {
+    const { version, ...startOptions } = options;
+    return this.startWorkflow(this.getRegisteredWorkflow(name, version), { ...startOptions, input });
+  }
+
+  /**
+   * Execute a registered workflow and wait for its result
+   * Runs the latest version unless `options.version` pins one; runs that
+   * already started keep the version they started with.
+   *
+   * @example
+   * ```typescript
+   * xflow.registerWorkflow(orderSpec, { version: '2' });
+   * const result = await xflow.executeWorkflowByName('Order Processing', { orderId: 'o_1' });
+   * // result.workflowName === 'Order Processing', result.workflowVersion === '2'
+   * ```
+   */
+  async executeWorkflowByName(
+    name: string,
+    input?: Record<string, any>,
+    options: XFlowNamedWorkflowOptions = {}
+  ): Promise<WorkflowResult> {
+    const { version, ...startOptions } = options;
+    return this.executeWorkflow(this.getRegisteredWorkflow(name, version), { ...startOptions, input });
   }
 
   /**
-   * Execute a workflow
+   * Reattach to a workflow started earlier, possibly by another process
    */
-  async executeWorkflow(spec: WorkflowSpec): Promise<WorkflowResult> {
+  async getWorkflowHandle(workflowId: string): Promise<XFlowWorkflowHandle> {
     await this.ensureInitialized();
+    return this.workflowExecutor.getHandle(workflowId);
+  }
+
+  /**
+   * Get the live state of every stage of a running workflow
+   * Useful for dashboards that poll workflow progress
+   */
+  async getWorkflowProgress(workflowId: string): Promise<WorkflowExecutionStage[]> {
+    const handle = await this.getWorkflowHandle(workflowId);
+    return handle.progress();
+  }
 
-    const workflowId = `workflow_${uuidv4()}`;
+  /**
+   * Send a signal to a running workflow, e.g. to approve a waitForSignal stage
+   * The payload becomes the result of the stage waiting for this signal. For
+   * runs of registered specs, it is checked against the stage's signal schema first.
+   */
+  async signalWorkflow(workflowId: string, signalName: string, payload?: any): Promise<void> {
+    const handle = await this.getWorkflowHandle(workflowId);
+    await handle.signal(signalName, payload);
+  }
+
+  /**
+   * Register a version of a spec so it can be run by name, directly or as a sub-workflow
+   * The version defaults to the spec's own `version`, else '1'.
+   *
+   * @example
+   * ```typescript
+   * xflow.registerWorkflow(notifyCustomerSpec, { version: '2' });
+   * // In another spec:
+   * { id: 'notify', type: 'workflow', workflow: 'Notify Customer', dependsOn: ['ship'] }
+   * ```
+   */
+  registerWorkflow(spec: WorkflowSpec, options: Pick<XFlowNamedWorkflowOptions, 'version'> = {}): WorkflowSpec {
+    const registeredSpec = workflowRegistry.register(spec, options.version);
+    workflowHooks.addSpecHooks(getHooksKey(registeredSpec, ''), registeredSpec);
+    return registeredSpec;
+  }
+
+  /**
+   * Add lifecycle hooks that run for every workflow
+   * Hooks run on the orchestration worker, so add them in the process that
+   * runs it, before it picks up runs: runs that started without any hooks do
+   * not report their events. Hooks of a single spec go in its `hooks` field instead.
+   *
+   * @example
+   * ```typescript
+   * xflow.addWorkflowHooks({
+   *   onStageComplete: (ctx) => metrics.timing(`${ctx.workflowName}.${ctx.stageId}`, ctx.duration),
+   *   onWorkflowFail: (ctx) => alerts.notify(`${ctx.workflowName} (${ctx.workflowId}) failed: ${ctx.error}`)
+   * });
+   * ```
+   */
+  addWorkflowHooks(hooks: XFlowWorkflowHooks): void {
+    workflowHooks.add(hooks);
+  }
+
+  /**
+   * Look up a registered spec, in the given version or else the latest one
+   */
+  getWorkflow(name: string, version?: string): WorkflowSpec | undefined {
+    return workflowRegistry.get(name, version);
+  }
+
+  /**
+   * List registered specs with their versions
+   */
+  listWorkflows(): XFlowRegisteredWorkflow[] {
+    return workflowRegistry.list();
+  }
+
+  private getRegisteredWorkflow(name: string, version?: string): WorkflowSpec {
+    const spec = workflowRegistry.get(name, version);
+    if (!spec) {
+      throw new Error(`Workflow '${name}'${version !== undefined ? ` version ${version}` : ''} is not registered`);
+    }
+    return spec;
+  }
+
+  /**
+   * Run a workflow on a cron expression or a fixed interval using a Temporal Schedule
+   * Returns the schedule ID. Each run reports a regular WorkflowResult: get the
+   * IDs of recent runs from `listSchedules()` and pass them to `getWorkflowHandle()`.
+   *
+   * @example
+   * ```typescript
+   * const scheduleId = await xflow.scheduleWorkflow(reconciliationSpec, {
+   *   cron: '0 2 * * *',
+   *   overlapPolicy: 'skip',
+   *   jitter: '5 minutes'
+   * });
+   * ```
+   */
+  async scheduleWorkflow(spec: WorkflowSpec, options: XFlowScheduleOptions): Promise<string> {
+    const resolvedSpec = await this.prepareSpec(spec);
+    const scheduleId = options.scheduleId ?? `schedule_${uuidv4()}`;
+    this.keepSpecHooks(resolvedSpec, scheduleId, false);
+
+    try {
+      await this.workflowScheduler.schedule(scheduleId, resolvedSpec, options);
+      return scheduleId;
+    } catch (error) {
+      console.error(`❌ Failed to schedule workflow: ${spec.name}`, error);
+      throw new Error(`Workflow scheduling failed: ${error}`);
+    }
+  }
+
+  /**
+   * List the schedules that run XFlow workflows
+   */
+  async listSchedules(): Promise<XFlowScheduleDescription[]> {
+    await this.ensureInitialized();
+    return this.workflowScheduler.list();
+  }
+
+  /**
+   * Get the current state of a schedule
+   */
+  async describeSchedule(scheduleId: string): Promise<XFlowScheduleDescription> {
+    await this.ensureInitialized();
+    return this.workflowScheduler.describe(scheduleId);
+  }
+
+  /**
+   * Stop a schedule from starting new runs until it is resumed
+   */
+  async pauseSchedule(scheduleId: string, note?: string): Promise<void> {
+    await this.ensureInitialized();
+    await this.workflowScheduler.pause(scheduleId, note);
+  }
+
+  /**
+   * Resume a paused schedule
+   */
+  async resumeSchedule(scheduleId: string, note?: string): Promise<void> {
+    await this.ensureInitialized();
+    await this.workflowScheduler.resume(scheduleId, note);
+  }
+
+  /**
+   * Start a scheduled workflow right away instead of waiting for its next run
+   */
+  async triggerNow(scheduleId: string): Promise<void> {
+    await this.ensureInitialized();
+    await this.workflowScheduler.trigger(scheduleId);
+  }
+
+  /**
+   * Delete a schedule; runs that already started keep going
+   */
+  async deleteSchedule(scheduleId: string): Promise<void> {
+    await this.ensureInitialized();
+    await this.workflowScheduler.delete(scheduleId);
+  }
+
+  /**
+   * Validate a spec and allocate a workflow ID for it, unless the caller supplied one
+   */
+  private async prepareWorkflow(
+    spec: WorkflowSpec,
+    options: XFlowStartOptions
+  ): Promise<{ workflowId: string; resolvedSpec: WorkflowSpec }> {
+    const requestedId = options.workflowId;
+    if (requestedId !== undefined && requestedId.trim() === '') {
+      throw new Error('workflowId must not be empty');
+    }
+
+    // Like the spec, start options are checked before anything is sent to Temporal
+    const optionIssues = validateStartOptions(options, spec);
+    if (optionIssues.length > 0) {
+      throw new WorkflowValidationError(spec.name, optionIssues.map(issue => ({ ...issue, path: `options.${issue.path}` })));
+    }
+
+    const resolvedSpec = await this.prepareSpec(spec);
+
+    // Runs of registered specs carry the spec name and version in their ID
+    const workflowId = requestedId ?? (
+      spec.version !== undefined
+        ? `${toIdSegment(spec.name)}_v${spec.version}_${uuidv4()}`
+        : `workflow_${uuidv4()}`
+    );
     console.log(`🎯 Executing workflow: ${spec.name} (ID: ${workflowId})`);
+    this.keepSpecHooks(resolvedSpec, workflowId, true);
 
-    // Validate that all functions in the workflow are registered
-    const functionNames = spec.stages.map(stage => stage.function);
+    return { workflowId, resolvedSpec };
+  }
+
+  /**
+   * Keep the hooks of a spec for the runs of a workflow ID or schedule
+   * Hooks only run on the orchestration worker, so other roles don't keep them.
+   */
+  private keepSpecHooks(spec: WorkflowSpec, workflowId: string, singleRun: boolean): void {
+    const role = this.getRole();
+    if (role !== 'orchestrator' && role !== 'all') {
+      return;
+    }
+
+    const key = getHooksKey(spec, workflowId);
+    if (singleRun && spec.version === undefined) {
+      workflowHooks.addRunHooks(key, spec);
+    } else {
+      workflowHooks.addSpecHooks(key, spec);
+    }
+  }
+
+  /**
+   * Validate a spec and inline its named sub-workflows
+   */
+  private async prepareSpec(spec: WorkflowSpec): Promise<WorkflowSpec> {
+    // Catch malformed specs and params before anything is sent to Temporal
+    const specValidation = validateWorkflowSpec(spec);
+    if (!specValidation.valid) {
+      throw new WorkflowValidationError(spec.name, specValidation.issues);
+    }
+
+    const resolvedSpec = workflowRegistry.resolve(spec);
+
+    const paramIssues = registry.validateStageParams(resolvedSpec.stages);
+    if (paramIssues.length > 0) {
+      throw new WorkflowValidationError(spec.name, paramIssues);
+    }
+
+    await this.ensureInitialized();
+
+    // Validate that all functions in the workflow, its sub-workflows and their compensations are registered
+    const functionNames = collectStages(resolvedSpec).flatMap(stage => {
+      const names = stage.function ? [stage.function] : [];
+      const defaultCompensation = stage.function ? registry.getFunction(stage.function)?.options.compensate : undefined;
+      if (stage.compensate) {
+        names.push(stage.compensate.function);
+      } else if (stage.compensate === undefined && defaultCompensation) {
+        names.push(defaultCompensation);
+      }
+      return names;
+    });
     const validation = registry.validateWorkflowFunctions(functionNames);
     
     if (!validation.valid) {
@@ -148,25 +571,19 @@ export class XFlow {
       );
     }
 
-    try {
-      const startTime = Date.now();
-      const result = await this.workflowExecutor.execute(workflowId, spec);
-      const duration = Date.now() - startTime;
-
-      const workflowResult: WorkflowResult = {
-        workflowId,
-        status: result.status === 'COMPLETED' ? 'COMPLETED' : 'FAILED',
-        stages: result.stages,
-        duration,
-        error: result.status === 'FAILED' ? result.error : undefined
-      };
-
-      console.log(`✅ Workflow completed: ${spec.name} in ${duration}ms`);
-      return workflowResult;
-    } catch (error) {
-      console.error(`❌ Workflow failed: ${spec.name}`, error);
-      throw new Error(`Workflow execution failed: ${error}`);
+    // No worker would ever pick up calls routed to an undeclared pool
+    const undeclared = functionNames
+      .map(name => registry.getFunction(name)!)
+      .filter(func => !registry.isDeclaredPool(func.stage))
+      .map(func => `${func.name} (pool '${func.stage}')`);
+    if (undeclared.length > 0) {
+      throw new Error(
+        `Workflow validation failed. Functions on undeclared worker pools: ${Array.from(new Set(undeclared)).join(', ')}. ` +
+        `Declare the pools in XFlowConfig.pools.`
+      );
     }
+
+    return resolvedSpec;
   }
 
   /**
@@ -181,17 +598,21 @@ export class XFlow {
    */
   getWorkerStatus() {
     const runningWorkers = Array.from(this.workers.keys());
-    const allStages = [1, 2, 3] as WorkerStage[];
+    const allStages = registry.getPools();
     
     return {
+      role: this.getRole(),
+      orchestrator: {
+        running: this.orchestrationWorker !== null,
+        taskQueue: getOrchestrationTaskQueue(this.connectionManager.getTaskQueuePrefix())
+      },
       running: runningWorkers,
       stopped: allStages.filter(stage => !runningWorkers.includes(stage)),
       total: allStages.length,
-      functionsPerStage: {
-        stage1: registry.getFunctionsByStage(1).length,
-        stage2: registry.getFunctionsByStage(2).length,
-        stage3: registry.getFunctionsByStage(3).length
-      }
+      // Keyed by pool label: stage1, stage2, stage3, then named pools
+      functionsPerStage: Object.fromEntries(
+        allStages.map(stage => [getPoolLabel(stage), registry.getFunctionsByStage(stage).length])
+      ) as Record<string, number>
     };
   }
 
@@ -211,6 +632,16 @@ export class XFlow {
     });
 
     this.workers.clear();
+
+    if (this.orchestrationWorker) {
+      try {
+        this.orchestrationWorker.shutdown();
+      } catch (err: any) {
+        console.error('Error shutting down orchestration worker:', err);
+      }
+      this.orchestrationWorker = null;
+    }
+
     console.log('✅ XFlow SDK shutdown complete');
   }
 
@@ -235,10 +666,16 @@ export class XFlow {
       temporalAddress: this.config.temporalAddress,
       useSSL: this.config.useSSL,
       jwtTokenPath: this.config.jwtTokenPath || './xflow-token.jwt',
-      autoDiscoverCertificates: this.config.autoDiscoverCertificates ?? true
+      autoDiscoverCertificates: this.config.autoDiscoverCertificates ?? true,
+      namespace: this.connectionManager.getNamespace(),
+      taskQueuePrefix: this.connectionManager.getTaskQueuePrefix()
     };
   }
 
+  private getRole(): XFlowRole {
+    return this.config.role ?? 'all';
+  }
+
   /**
    * Ensure SDK is initialized before operations
    */
@@ -263,6 +700,14 @@ export class XFlow {
       config.temporalAddress.includes(':443')
     );
 
+    if (config.role !== undefined && !['client', 'orchestrator', 'worker', 'all'].includes(config.role)) {
+      throw new Error(`Invalid role '${config.role}': use 'client', 'orchestrator', 'worker' or 'all'`);
+    }
+
+    if (config.taskQueuePrefix !== undefined && !/^[A-Za-z0-9][\w.-]*$/.test(config.taskQueuePrefix)) {
+      throw new Error(`Invalid taskQueuePrefix '${config.taskQueuePrefix}': use letters, digits, '-', '_' and '.'`);
+    }
+
     return {
       ...config,
       useSSL,
@@ -272,6 +717,22 @@ export class XFlow {
   }
 }
 
+/**
+ * Turn a spec name into something readable inside a workflow ID, e.g. `order-processing`
+ */
+function toIdSegment(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'workflow';
+}
+
+/**
+ * Get the stages of a spec, including the stages of its nested sub-workflows
+ */
+function collectStages(spec: WorkflowSpec): WorkflowStage[] {
+  return spec.stages.flatMap(stage =>
+    stage.workflow && typeof stage.workflow !== 'string' ? [stage, ...collectStages(stage.workflow)] : [stage]
+  );
+}
+
 // Export a convenience function for quick setup
 export function createXFlow(config: XFlowConfig): XFlow {
   return new XFlow(config);
@@ -1,9 +1,10 @@
 // @xflowFunction decorator for XFlow SDK
 // This is what clients use to mark their functions
 
-import { v4 as uuidv4 } from 'uuid';
-import { XFlowFunctionOptions, XFlowContext, StageStatus } from '../types/index';
+import { XFlowFunctionOptions } from '../types/index';
 import { registry } from '../core/registry';
+import { createHookContext, runWithHooks } from '../core/hook-pipeline';
+import { validatePool } from '../core/worker-pools';
 
 /**
  * Decorator to mark functions for XFlow execution
@@ -27,9 +28,7 @@ export function xflowFunction(options: XFlowFunctionOptions) {
     const functionName = options.name || propertyKey;
 
     // Validate options
-    if (!options.stage || options.stage < 1 || options.stage > 3) {
-      throw new Error(`Invalid stage: ${options.stage}. Must be 1, 2, or 3.`);
-    }
+    validatePool(options.stage);
 
     // Register the function in the global registry
     try {
@@ -49,62 +48,8 @@ export function xflowFunction(options: XFlowFunctionOptions) {
 
     // Wrap the function with observability hooks
     descriptor.value = async function (...args: any[]) {
-      const context: XFlowContext = {
-        id: uuidv4(),
-        name: functionName,
-        stage: options.stage,
-        inputs: Object.fromEntries(args.map((val, i) => [`arg${i}`, val])),
-        startTime: new Date()
-      };
-
-      const hooks = options.hooks || {};
-
-      try {
-        // Execute onStart hook
-        if (hooks.onStart) {
-          await hooks.onStart(context);
-        }
-
-        // Execute the original function
-        const result = await originalFunction.apply(this, args);
-
-        // Update context with success
-        context.output = result;
-        context.endTime = new Date();
-
-        // Execute onSuccess hook
-        if (hooks.onSuccess) {
-          await hooks.onSuccess(context);
-        }
-
-        return result;
-
-      } catch (error) {
-        // Update context with error
-        context.error = error as Error;
-        context.endTime = new Date();
-
-        // Execute onFailure hook
-        if (hooks.onFailure) {
-          try {
-            await hooks.onFailure(context);
-          } catch (hookError) {
-            console.error('Error in onFailure hook:', hookError);
-          }
-        }
-
-        throw error;
-
-      } finally {
-        // Always execute onFinish hook
-        if (hooks.onFinish) {
-          try {
-            await hooks.onFinish(context);
-          } catch (hookError) {
-            console.error('Error in onFinish hook:', hookError);
-          }
-        }
-      }
+      const context = createHookContext(functionName, options.stage, args);
+      return runWithHooks(context, options.hooks, () => originalFunction.apply(this, args));
     };
 
     // Preserve original function metadata
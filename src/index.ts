@@ -11,29 +11,71 @@ export { xflowFunction, isXFlowFunction, getXFlowOptions, getOriginalFunction }
 export {
   // Configuration types
   XFlowConfig,
+  XFlowRole,
   WorkerConfig,
   SSLCertificates,
   
   // Function decoration types
   XFlowFunctionOptions,
+  XFlowExecutionOptions,
+  XFlowRetryPolicy,
   WorkerStage,
   XFlowHooks,
   XFlowHook,
   XFlowContext,
+  XFlowExecutionContext,
+  XFlowLogger,
+  XFlowWorkflowHooks,
+  XFlowWorkflowHook,
+  XFlowWorkflowHookContext,
   
   // Workflow types
   WorkflowSpec,
+  WorkflowFailureMode,
   WorkflowStage,
+  WorkflowStageType,
+  StageSignalOptions,
+  StageMapOptions,
+  StageTimerOptions,
+  StageCompensation,
+  StageCompensationResult,
+  StageCondition,
+  StageValueCondition,
   WorkflowResult,
   WorkflowExecution,
   WorkflowExecutionStage,
+  WorkflowSpecIssue,
+  WorkflowSpecValidation,
+  XFlowWorkflowHandle,
+  XFlowWorkflowDescription,
+  XFlowWorkflowStatus,
+  XFlowStartOptions,
+  XFlowIdConflictPolicy,
+  XFlowNamedWorkflowOptions,
+  XFlowRegisteredWorkflow,
+  WorkflowFileInput,
+  WorkflowFileOptions,
+  XFlowScheduleOptions,
+  XFlowScheduleOverlapPolicy,
+  XFlowScheduleDescription,
   
   // Status enums
   StageStatus
 } from './types/index';
 
+// Workflow spec validation
+export { validateWorkflowSpec, workflowSpecSchema, workflowStageSchema } from './core/spec-validator';
+
+// Workflow files
+export { loadWorkflowSpec } from './core/spec-loader';
+
+// Error types
+export { WorkflowValidationError, WorkflowIdConflictError } from './core/errors';
+
 // Registry access (for advanced users)
 export { registry } from './core/registry';
+export { workflowRegistry } from './core/workflow-registry';
+export { workflowHooks } from './core/workflow-hooks';
 
 // Common hook implementations
 export {
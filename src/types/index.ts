@@ -1,15 +1,20 @@
 // Core types for XFlow SDK - Clean interfaces for clients
 
+import type { ZodTypeAny } from 'zod';
+
 /**
- * Worker tier for function execution (infrastructure level)
- * Functions are distributed across 3 physical worker tiers:
+ * Worker pool for function execution (infrastructure level)
+ * Functions are distributed across 3 physical worker tiers by default:
  * Tier 1: Validation, Security, Logging
  * Tier 2: Business Logic, Data Processing, External APIs  
  * Tier 3: Notifications, Finalization, Cleanup
  * 
- * Note: Workflows can have unlimited steps - each step executes on one of these 3 tiers
+ * Named pools declared in `XFlowConfig.pools` (e.g. 'pdf-rendering') add
+ * isolated worker pools that scale separately from the tiers.
+ *
+ * Note: Workflows can have unlimited steps - each step executes on one of these pools
  */
-export type WorkerStage = 1 | 2 | 3;
+export type WorkerStage = 1 | 2 | 3 | string;
 
 /**
  * Execution status of a workflow stage
@@ -18,7 +23,10 @@ export enum StageStatus {
   PENDING = 'PENDING',
   IN_PROGRESS = 'IN_PROGRESS',
   COMPLETED = 'COMPLETED',
-  FAILED = 'FAILED'
+  FAILED = 'FAILED',
+  SKIPPED = 'SKIPPED',
+  /** Stopped, or never started, because the workflow deadline passed */
+  CANCELLED = 'CANCELLED'
 }
 
 /**
@@ -33,8 +41,56 @@ export interface XFlowContext {
   error?: Error;
   startTime: Date;
   endTime?: Date;
+  /** Workflow and stage the call belongs to, when running on a worker */
   workflowId?: string;
   stageId?: string;
+  /** Attempt number on the worker, starting at 1 */
+  attempt?: number;
+  /** Task queue of the worker running the call */
+  taskQueue?: string;
+}
+
+/**
+ * Logger scoped to one function call
+ * Entries carry the function name, workflow ID and stage ID as metadata.
+ */
+export interface XFlowLogger {
+  debug(message: string, meta?: Record<string, unknown>): void;
+  info(message: string, meta?: Record<string, unknown>): void;
+  warn(message: string, meta?: Record<string, unknown>): void;
+  error(message: string, meta?: Record<string, unknown>): void;
+}
+
+/**
+ * Execution details passed as the second argument to functions running on a worker
+ *
+ * @example
+ * ```typescript
+ * @xflowFunction({ stage: 2, heartbeatTimeout: '30 seconds' })
+ * async function importRows(params: { file: string }, ctx: XFlowExecutionContext) {
+ *   let row = ctx.lastHeartbeatDetails?.row ?? 0; // Resume where the last attempt stopped
+ *   for (; row < total && !ctx.signal.aborted; row++) {
+ *     await importRow(params.file, row);
+ *     ctx.heartbeat({ row });
+ *   }
+ * }
+ * ```
+ */
+export interface XFlowExecutionContext {
+  workflowId?: string;
+  stageId?: string;
+  /** Attempt number, starting at 1 */
+  attempt: number;
+  /** Details of the last heartbeat sent by a previous attempt */
+  lastHeartbeatDetails?: any;
+  /**
+   * Report progress and keep the call alive within its `heartbeatTimeout`.
+   * Calls must heartbeat to be notified of cancellation.
+   */
+  heartbeat(details?: any): void;
+  /** Aborted when the call is cancelled, e.g. by the workflow deadline */
+  signal: AbortSignal;
+  logger: XFlowLogger;
 }
 
 /**
@@ -52,34 +108,265 @@ export interface XFlowHooks {
   onFinish?: XFlowHook;
 }
 
+/**
+ * Context passed to workflow lifecycle hooks
+ */
+export interface XFlowWorkflowHookContext {
+  workflowId: string;
+  workflowName: string;
+  workflowVersion?: string;
+  /** Set for stage hooks */
+  stageId?: string;
+  startTime: Date;
+  /** Set once the workflow or stage has finished */
+  endTime?: Date;
+  /** Milliseconds from `startTime` to `endTime` */
+  duration?: number;
+  /** Workflow status ('COMPLETED', 'PARTIAL', 'FAILED') or stage status, once finished */
+  status?: string;
+  error?: string;
+  /** Result of the stage, for `onStageComplete` */
+  result?: any;
+}
+
+/**
+ * Workflow lifecycle hook function type
+ */
+export type XFlowWorkflowHook = (ctx: XFlowWorkflowHookContext) => void | Promise<void>;
+
+/**
+ * Lifecycle hooks for workflow runs
+ * They run on the orchestration worker, so they must be registered in the
+ * process that runs it. Errors thrown by hooks are logged and otherwise ignored.
+ */
+export interface XFlowWorkflowHooks {
+  onWorkflowStart?: XFlowWorkflowHook;
+  onStageStart?: XFlowWorkflowHook;
+  /** Called when a started stage finishes, whether it completed, failed or was cut off */
+  onStageComplete?: XFlowWorkflowHook;
+  /** Called when the workflow finishes with status COMPLETED or PARTIAL */
+  onWorkflowComplete?: XFlowWorkflowHook;
+  onWorkflowFail?: XFlowWorkflowHook;
+}
+
+/**
+ * Retry policy applied when a function fails on a worker
+ */
+export interface XFlowRetryPolicy {
+  /** Maximum number of attempts, including the first one (0 = unlimited) */
+  maxAttempts?: number;
+  /** Multiplier applied to the retry interval after each attempt (default: 2) */
+  backoffCoefficient?: number;
+  /** Delay before the first retry (e.g., '1 second') */
+  initialInterval?: string;
+  /** Upper bound for the retry interval (e.g., '1 minute') */
+  maxInterval?: string;
+  /** Error names that should fail the function immediately without retrying */
+  nonRetryableErrors?: string[];
+}
+
+/**
+ * Timeout and retry settings for executing a function on a worker
+ */
+export interface XFlowExecutionOptions {
+  /** Timeout for a single execution attempt (e.g., '5 minutes', '30 seconds') */
+  timeout?: string;
+  /** Timeout for the whole execution, including retries */
+  scheduleToCloseTimeout?: string;
+  /** Maximum time between heartbeats before an attempt is considered lost */
+  heartbeatTimeout?: string;
+  /** Retry policy (default: Temporal's default retry policy) */
+  retry?: XFlowRetryPolicy;
+}
+
 /**
  * Configuration for decorating functions with @xflowFunction
  */
-export interface XFlowFunctionOptions {
+export interface XFlowFunctionOptions extends XFlowExecutionOptions {
   /** Function name (defaults to method name) */
   name?: string;
-  /** Worker stage (1, 2, or 3) */
+  /** Worker stage (1, 2, 3) or the name of a pool declared in `XFlowConfig.pools` */
   stage: WorkerStage;
-  /** Timeout for function execution (e.g., '5 minutes', '30 seconds') */
-  timeout?: string;
   /** Observability hooks */
   hooks?: XFlowHooks;
+  /**
+   * Name of a registered function that undoes this one when a later stage fails.
+   * It receives `{ params, result }` of the completed stage.
+   */
+  compensate?: string;
+  /** Zod schema the stage params must satisfy before the function runs on a worker */
+  input?: ZodTypeAny;
+  /** Zod schema the function's return value must satisfy */
+  output?: ZodTypeAny;
+}
+
+/**
+ * Comparison against a referenced value
+ * All operators that are set must hold; with no operator the value must be truthy
+ */
+export interface StageValueCondition {
+  /** Reference path, same syntax as `$ref` in params (e.g. 'pay.result.flagged') */
+  $ref: string;
+  equals?: any;
+  notEquals?: any;
+  in?: any[];
+  exists?: boolean;
+  gt?: number;
+  gte?: number;
+  lt?: number;
+  lte?: number;
+}
+
+/**
+ * Condition deciding whether a stage runs
+ * A string is a template (e.g. '${stages.pay.result.flagged}') that must resolve to a truthy value
+ */
+export type StageCondition =
+  | string
+  | StageValueCondition
+  | { all: StageCondition[] }
+  | { any: StageCondition[] }
+  | { not: StageCondition };
+
+/**
+ * Kind of work a stage performs
+ * - `function`: run a decorated function on a worker (default)
+ * - `waitForSignal`: pause until a signal is sent with `xflow.signalWorkflow()`
+ * - `map`: run the stage's function once per element of an array
+ * - `workflow`: run another workflow spec as a child workflow
+ * - `timer`: wait durably for a duration or until a point in time
+ */
+export type WorkflowStageType = 'function' | 'waitForSignal' | 'map' | 'workflow' | 'timer';
+
+/**
+ * Configuration for a `waitForSignal` stage
+ */
+export interface StageSignalOptions {
+  /** Signal name passed to `xflow.signalWorkflow()`; unique within the spec */
+  name: string;
+  /** How long to wait (e.g., '2 days'); waits forever when omitted */
+  timeout?: string;
+  /**
+   * Zod schema the signal payload must satisfy, checked before the signal is sent.
+   * Signals to runs of registered specs are checked from any process; runs of
+   * unregistered specs only through the handle returned when starting them.
+   */
+  schema?: ZodTypeAny;
+  /** Result to use when the timeout expires; without it, a timeout fails the stage */
+  defaultPayload?: any;
+}
+
+/**
+ * Configuration for a `timer` stage; set exactly one of `duration` and `until`
+ * The stage result is `{ firedAt, waitedMs }`.
+ */
+export interface StageTimerOptions {
+  /** How long to wait, e.g. '24 hours' */
+  duration?: string;
+  /**
+   * When to stop waiting: an ISO timestamp, epoch milliseconds, or a reference
+   * to one, e.g. `'${confirm.result.followUpAt}'`. Times in the past don't wait.
+   */
+  until?: string | number | { $ref: string };
+}
+
+/**
+ * Configuration for a `map` stage
+ * The stage result is an array with one entry per item, in item order;
+ * entries of failed items are `null`.
+ */
+export interface StageMapOptions {
+  /**
+   * Array to iterate: a literal array or a reference to an upstream result,
+   * e.g. `{ $ref: 'cart.result.items' }`
+   */
+  items: any[] | { $ref: string } | string;
+  /**
+   * Params for each call. `item` and `index` refer to the current element,
+   * e.g. `{ sku: { $ref: 'item.sku' }, position: '${index}' }`
+   */
+  params: Record<string, any>;
+  /** How many items may run at the same time (default: all of them) */
+  maxConcurrency?: number;
+  /** How many items may fail before the stage fails (default: 0) */
+  maxFailures?: number;
+}
+
+/**
+ * Stage-level compensation override
+ */
+export interface StageCompensation {
+  /** Name of the registered function to run as compensation */
+  function: string;
+  /**
+   * Params for the compensation function (default: `{ params, result }` of the stage).
+   * References may point at `dependsOn` stages and at the stage itself.
+   * Map stages are compensated once per successful item, with the item's own
+   * `{ params, result }`; there `<stage>.result`, `item` and `index` refer to the item.
+   */
+  params?: Record<string, any>;
 }
 
 /**
  * A single stage in a workflow definition
+ * Timeout and retry settings override the ones declared on the function
  */
-export interface WorkflowStage {
+export interface WorkflowStage extends XFlowExecutionOptions {
   /** Unique identifier for this stage */
   id: string;
-  /** Name of the decorated function to execute */
-  function: string;
-  /** Parameters to pass to the function */
-  params: Record<string, any>;
+  /** Kind of stage (default: 'function') */
+  type?: WorkflowStageType;
+  /** Name of the decorated function to execute (required for function stages) */
+  function?: string;
+  /**
+   * Parameters to pass to the function (for workflow stages: the child workflow's input).
+   * Values can reference results of stages listed in `dependsOn`, either as
+   * `{ $ref: 'validate.result.userId' }` or `'${stages.validate.result.userId}'`,
+   * and the workflow input, e.g. `'${input.orderId}'`
+   */
+  params?: Record<string, any>;
+  /** Signal to wait for (required for waitForSignal stages); the payload becomes the stage result */
+  signal?: StageSignalOptions;
+  /** Items to fan out over (required for map stages); `function` runs once per item */
+  map?: StageMapOptions;
+  /** How long to wait (required for timer stages) */
+  timer?: StageTimerOptions;
+  /**
+   * Spec to run as a child workflow (required for workflow stages): either a
+   * nested spec or the name of a spec registered with `xflow.registerWorkflow()`,
+   * optionally pinned to a version (`'Notify Customer@2'`).
+   * The stage result maps each completed child stage ID to its result.
+   */
+  workflow?: WorkflowSpec | string;
   /** Array of stage IDs this stage depends on */
   dependsOn?: string[];
+  /**
+   * Only run the stage when this condition holds (evaluated against `dependsOn` results).
+   * A stage whose condition fails is SKIPPED, and so is every stage that depends on it.
+   */
+  when?: StageCondition;
+  /**
+   * Keep going if this stage fails: dependents still run and the failure does
+   * not fail the workflow (it reports PARTIAL instead)
+   */
+  continueOnError?: boolean;
+  /**
+   * Compensation to run if the workflow fails after this stage completed.
+   * Overrides the function's `compensate` option; `false` disables compensation.
+   */
+  compensate?: StageCompensation | false;
 }
 
+/**
+ * How a workflow reacts to a failing stage
+ * - `failFast`: stop scheduling new stages after the first failure (default)
+ * - `continueIndependent`: keep running stages that do not depend on a failed
+ *   stage; the workflow still fails
+ * - `allowPartial`: like `continueIndependent`, but the workflow reports PARTIAL
+ *   instead of FAILED when at least one stage completed
+ */
+export type WorkflowFailureMode = 'failFast' | 'continueIndependent' | 'allowPartial';
+
 /**
  * Complete workflow specification
  */
@@ -88,10 +375,119 @@ export interface WorkflowSpec {
   name: string;
   /** Optional description */
   description?: string;
+  /** Version of a registered spec (set by `xflow.registerWorkflow()`) */
+  version?: string;
+  /** How the workflow reacts to a failing stage (default: 'failFast') */
+  failureMode?: WorkflowFailureMode;
+  /**
+   * Time allowed for the whole workflow, including retries (e.g. '6 hours').
+   * Temporal terminates the workflow when it expires, without a result.
+   */
+  executionTimeout?: string;
+  /** Time allowed for a single workflow run (default: '1 hour' unless `executionTimeout` or a deadline is set) */
+  runTimeout?: string;
+  /**
+   * Time allowed for the stages (e.g. '30 seconds'). When it passes, running
+   * stages are cancelled, the remaining ones are not started, compensations run
+   * and the workflow reports FAILED with the cut-off stages marked CANCELLED.
+   * Must be shorter than `runTimeout` and `executionTimeout`.
+   */
+  deadline?: string;
+  /**
+   * Lifecycle hooks for runs of this spec, on top of the ones added with `xflow.addWorkflowHooks()`
+   * Like those, they run on the orchestration worker and only if that process
+   * knows them: it must start the spec itself (role 'all') or register it with
+   * `xflow.registerWorkflow()`. Hooks of a spec started from another process are not called.
+   * Registered versions share their hooks; the hooks of an unregistered spec
+   * only apply to the run (or schedule) started from it.
+   */
+  hooks?: XFlowWorkflowHooks;
   /** Array of stages to execute */
   stages: WorkflowStage[];
 }
 
+/**
+ * What to do when a workflow is started with an ID that is already taken
+ * - `reject`: fail with a WorkflowIdConflictError (default)
+ * - `attach`: return the existing run instead of starting a new one
+ * - `allowIfFailed`: start a new run if the latest one failed, else reject
+ */
+export type XFlowIdConflictPolicy = 'reject' | 'attach' | 'allowIfFailed';
+
+/**
+ * Options for starting a workflow
+ */
+export interface XFlowStartOptions {
+  /** Workflow input, referenced from stage params as `input.<field>` */
+  input?: Record<string, any>;
+  /** Workflow ID to use, e.g. a business key such as `order-1234` (default: generated) */
+  workflowId?: string;
+  /** What to do when `workflowId` is already taken (default: 'reject') */
+  idConflictPolicy?: XFlowIdConflictPolicy;
+  /** Overrides the spec's `executionTimeout` */
+  executionTimeout?: string;
+  /** Overrides the spec's `runTimeout` */
+  runTimeout?: string;
+  /** Overrides the spec's `deadline`: a duration from the start, or a point in time */
+  deadline?: string | Date;
+}
+
+/**
+ * Options for running a registered workflow by name
+ */
+export interface XFlowNamedWorkflowOptions extends Omit<XFlowStartOptions, 'input'> {
+  /** Version to run (default: the latest registered version) */
+  version?: string;
+}
+
+/**
+ * A workflow spec registered with `xflow.registerWorkflow()`
+ */
+export interface XFlowRegisteredWorkflow {
+  name: string;
+  /** Description of the latest version */
+  description?: string;
+  /** Registered versions, oldest first */
+  versions: string[];
+  latestVersion: string;
+}
+
+/**
+ * An input declared at the top of a workflow file
+ * Inputs without a default must be given when the file is loaded.
+ */
+export interface WorkflowFileInput {
+  description?: string;
+  default?: any;
+}
+
+/**
+ * Options for `loadWorkflowSpec()`
+ */
+export interface WorkflowFileOptions {
+  /** Values for the inputs declared in the file, substituted for `{{ inputs.<name> }}` */
+  inputs?: Record<string, any>;
+}
+
+/**
+ * A single problem found while validating a workflow spec
+ */
+export interface WorkflowSpecIssue {
+  /** Location of the problem, e.g. 'stages[3].dependsOn[0]' */
+  path: string;
+  /** Human-readable description, e.g. "unknown stage 'pay'" */
+  message: string;
+}
+
+/**
+ * Result of validating a workflow spec
+ */
+export interface WorkflowSpecValidation {
+  valid: boolean;
+  /** Every problem found (empty when valid) */
+  issues: WorkflowSpecIssue[];
+}
+
 /**
  * Runtime execution state of a workflow stage
  */
@@ -100,8 +496,12 @@ export interface WorkflowExecutionStage extends WorkflowStage {
   startTime?: Date;
   endTime?: Date;
   error?: string;
+  /** Why the stage was skipped (only set for SKIPPED stages) */
+  skipReason?: string;
   result?: any;
   executedBy?: string; // Which worker stage executed this
+  /** Stages of the child workflow (only set for workflow stages that ran) */
+  childStages?: WorkflowExecutionStage[];
 }
 
 /**
@@ -116,6 +516,128 @@ export interface WorkflowExecution {
   endTime?: Date;
 }
 
+/**
+ * Outcome of a compensation run after a workflow failed
+ */
+export interface StageCompensationResult {
+  /** Stage whose work was compensated */
+  stageId: string;
+  /** Item of a map stage whose work was compensated */
+  itemIndex?: number;
+  /** Compensation function that ran */
+  function: string;
+  status: 'COMPLETED' | 'FAILED';
+  result?: any;
+  error?: string;
+  startTime: Date;
+  endTime: Date;
+}
+
+/**
+ * Temporal-level status of a workflow run
+ */
+export type XFlowWorkflowStatus =
+  | 'RUNNING'
+  | 'COMPLETED'
+  | 'FAILED'
+  | 'CANCELLED'
+  | 'TERMINATED'
+  | 'CONTINUED_AS_NEW'
+  | 'TIMED_OUT'
+  | 'UNSPECIFIED'
+  | 'UNKNOWN';
+
+/**
+ * Snapshot of a workflow run returned by `XFlowWorkflowHandle.describe()`
+ */
+export interface XFlowWorkflowDescription {
+  workflowId: string;
+  /** Name of the spec that ran */
+  workflowName?: string;
+  /** Version of the spec that ran, for registered specs */
+  workflowVersion?: string;
+  runId: string;
+  status: XFlowWorkflowStatus;
+  startTime: Date;
+  closeTime?: Date;
+}
+
+/**
+ * Handle to a started workflow
+ * Returned by `xflow.startWorkflow()` and `xflow.getWorkflowHandle()`
+ */
+export interface XFlowWorkflowHandle {
+  /** XFlow workflow ID (the same ID reported in `WorkflowResult.workflowId`) */
+  readonly workflowId: string;
+  /** Wait for the workflow to finish and return its result */
+  result(): Promise<WorkflowResult>;
+  /** Get the live state of every stage (PENDING, IN_PROGRESS, COMPLETED, FAILED, SKIPPED) */
+  progress(): Promise<WorkflowExecutionStage[]>;
+  /** Get the current status of the workflow run */
+  describe(): Promise<XFlowWorkflowDescription>;
+  /** Request cancellation of the workflow */
+  cancel(): Promise<void>;
+  /** Stop the workflow immediately, without giving it a chance to clean up */
+  terminate(reason?: string): Promise<void>;
+  /** Send a signal, e.g. to complete a waitForSignal stage */
+  signal(signalName: string, payload?: any): Promise<void>;
+}
+
+/**
+ * What a schedule does when a run is still going at its next start time
+ * - `skip`: don't start the new run (default)
+ * - `bufferOne` / `bufferAll`: start it (or all missed runs) once the current run finishes
+ * - `cancelOther` / `terminateOther`: stop the current run, then start the new one
+ * - `allowAll`: start the new run right away, alongside the current one
+ */
+export type XFlowScheduleOverlapPolicy =
+  | 'skip'
+  | 'bufferOne'
+  | 'bufferAll'
+  | 'cancelOther'
+  | 'terminateOther'
+  | 'allowAll';
+
+/**
+ * When a scheduled workflow runs
+ * At least one of `cron` and `interval` is required.
+ */
+export interface XFlowScheduleOptions {
+  /** Schedule ID (default: generated) */
+  scheduleId?: string;
+  /** Cron expression, e.g. '0 2 * * *' for 2am every night */
+  cron?: string;
+  /** Fixed interval between runs, e.g. '15 minutes' */
+  interval?: string;
+  /** What to do when the previous run is still going (default: 'skip') */
+  overlapPolicy?: XFlowScheduleOverlapPolicy;
+  /** Random delay of up to this duration added to each run, e.g. '5 minutes' */
+  jitter?: string;
+  /** No runs before this time */
+  startAt?: Date;
+  /** No runs after this time */
+  endAt?: Date;
+}
+
+/**
+ * Current state of a workflow schedule
+ */
+export interface XFlowScheduleDescription {
+  scheduleId: string;
+  /** Name of the scheduled workflow spec */
+  workflowName?: string;
+  paused: boolean;
+  /** Why the schedule was paused, if it was */
+  note?: string;
+  /** Upcoming run times */
+  nextRunTimes: Date[];
+  /**
+   * Workflow IDs of the most recent runs, oldest first.
+   * Pass one to `xflow.getWorkflowHandle()` to get its WorkflowResult.
+   */
+  recentRuns: string[];
+}
+
 /**
  * SSL/TLS certificate configuration
  */
@@ -146,15 +668,43 @@ export interface XFlowConfig {
   certificates?: SSLCertificates;
   /** Whether to auto-discover certificates in ./certs/ directory */
   autoDiscoverCertificates?: boolean;
+  /** Temporal namespace used by clients and workers (default: 'default') */
+  namespace?: string;
+  /**
+   * Prefix of every task queue and workflow ID (default: 'xflow')
+   * Environments or tenants sharing a namespace stay apart by using different prefixes.
+   */
+  taskQueuePrefix?: string;
+  /** Workers started by `xflow.start()` (default: 'all') */
+  role?: XFlowRole;
+  /** Pools whose workers the `worker` role runs (default: every declared pool) */
+  workerPools?: WorkerStage[];
+  /**
+   * Named worker pools, on top of the default pools 1, 2 and 3 (e.g. ['pdf-rendering', 'pci'])
+   * Each pool gets its own task queue and workers.
+   */
+  pools?: string[];
 }
 
+/**
+ * What an XFlow process does when `xflow.start()` is called
+ * - `client`: starts no workers; the process only starts and queries workflows
+ * - `orchestrator`: runs the orchestration worker, which executes the workflow logic
+ * - `worker`: runs the stage workers of `XFlowConfig.workerPools`
+ * - `all`: runs the orchestration worker and the workers of every declared pool
+ */
+export type XFlowRole = 'client' | 'orchestrator' | 'worker' | 'all';
+
 /**
  * Worker configuration for starting workers
  */
 export interface WorkerConfig {
-  /** Which worker stage to start (1, 2, 3, or 'all') */
+  /** Which worker stage or pool to start (1, 2, 3, a declared pool name, or 'all') */
   stage: WorkerStage | 'all';
-  /** Optional custom task queue prefix (default: 'xflow') */
+  /**
+   * Task queue prefix (default: `XFlowConfig.taskQueuePrefix`)
+   * @deprecated Set `taskQueuePrefix` on XFlowConfig so clients route calls to the same queues
+   */
   taskQueuePrefix?: string;
   /** Maximum concurrent activities per worker */
   maxConcurrentActivities?: number;
@@ -166,10 +716,20 @@ export interface WorkerConfig {
 export interface WorkflowResult {
   /** Unique workflow execution ID */
   workflowId: string;
-  /** Final execution status */
-  status: 'COMPLETED' | 'FAILED';
+  /** Name of the spec that ran */
+  workflowName?: string;
+  /** Version of the spec that ran, for registered specs */
+  workflowVersion?: string;
+  /** Final execution status (PARTIAL: some stages failed but the failure was tolerated) */
+  status: 'COMPLETED' | 'PARTIAL' | 'FAILED';
   /** Results from each stage */
   stages: WorkflowExecutionStage[];
+  /** IDs of stages that were skipped by a `when` condition or a skipped dependency */
+  skippedStages: string[];
+  /** IDs of stages cut off (cancelled or never started) by the workflow deadline */
+  cutOffStages: string[];
+  /** Compensations run because the workflow failed, in the order they ran */
+  compensations: StageCompensationResult[];
   /** Total execution time in milliseconds */
   duration: number;
   /** Error message if workflow failed */
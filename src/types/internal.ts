@@ -1,7 +1,14 @@
 // Internal types for XFlow SDK implementation
 // These are not exposed to clients
 
-import { XFlowFunctionOptions, WorkerStage } from './index';
+import {
+  XFlowFunctionOptions,
+  XFlowExecutionOptions,
+  WorkerStage,
+  StageCompensationResult,
+  XFlowWorkflowHooks,
+  XFlowWorkflowHookContext
+} from './index';
 
 /**
  * Internal registry entry for decorated functions
@@ -65,8 +72,46 @@ export interface ActivityExecutionContext {
  * Internal workflow execution input for Temporal
  */
 export interface InternalWorkflowInput {
+  /** XFlow ID of the run; scheduled runs get theirs from the Temporal workflow ID instead */
   workflowId: string;
+  /** Prefix of the Temporal workflow ID, stripped to get the XFlow ID of the run */
+  taskQueuePrefix?: string;
+  /** Key under which the orchestration worker keeps the spec hooks of the run */
+  hooksKey?: string;
   spec: any; // WorkflowSpec but using 'any' to avoid circular imports
+  /** Routing table resolved by the client, keyed by function name */
+  routes: Record<string, FunctionRoute>;
+  /** Workflow input, referenced from stage params as `input.<field>` */
+  input?: Record<string, any>;
+  /** Time allowed from the workflow start; overrides the spec's `deadline` */
+  deadline?: string;
+  /** Absolute deadline (epoch ms); overrides both relative deadlines */
+  deadlineAt?: number;
+}
+
+/**
+ * Lifecycle event sent by the orchestration workflow to the workflow hooks
+ */
+export interface WorkflowHookEvent extends Omit<XFlowWorkflowHookContext, 'duration'> {
+  hook: keyof XFlowWorkflowHooks;
+  /** Key of the spec hooks of the run, see `getHooksKey()` */
+  hooksKey?: string;
+}
+
+/**
+ * Internal workflow execution output returned by the orchestration workflow
+ * Carries the spec so results can be rebuilt by any client holding the workflow ID
+ */
+export interface InternalWorkflowOutput {
+  workflowId: string;
+  spec: any; // WorkflowSpec but using 'any' to avoid circular imports
+  status: 'COMPLETED' | 'PARTIAL' | 'FAILED';
+  /** Whether the workflow deadline cut off the run */
+  deadlineExceeded: boolean;
+  results: InternalStageResult[];
+  compensations: StageCompensationResult[];
+  startTime: Date;
+  endTime: Date;
 }
 
 /**
@@ -74,22 +119,27 @@ export interface InternalWorkflowInput {
  */
 export interface InternalStageResult {
   stageId: string;
-  status: 'COMPLETED' | 'FAILED';
+  status: 'COMPLETED' | 'FAILED' | 'SKIPPED' | 'CANCELLED';
   result?: any;
   error?: string;
+  skipReason?: string;
   startTime: Date;
   endTime: Date;
   executedBy: string; // Which worker stage executed this
+  childResults?: InternalStageResult[]; // Stage results of a child workflow
 }
 
 /**
  * Function routing information
  */
-export interface FunctionRoute {
+export interface FunctionRoute extends XFlowExecutionOptions {
   functionName: string;
   stage: WorkerStage;
   taskQueue: string;
-  timeout?: string;
+  /** Activity that dispatches the call on the workers of the function's pool */
+  executor: string;
+  /** Default compensation function */
+  compensate?: string;
 }
 
 /**
@@ -0,0 +1,473 @@
+import { executeDistributedWorkflow } from '../src/core/distributed-workflow';
+import { FunctionRoute, InternalWorkflowInput } from '../src/types/internal';
+import { WorkflowStage } from '../src/types/index';
+
+// Stand-ins for the Temporal workflow APIs. Activities and local activities
+// are forwarded to jest mocks; cancelling any scope rejects every pending
+// activity and timer.
+const mockActivity = jest.fn();
+const mockRunWorkflowHooks = jest.fn();
+const mockSleep = jest.fn();
+const mockExecuteChild = jest.fn();
+const mockWorkflowInfo = jest.fn();
+const mockPending: Array<(error: Error) => void> = [];
+
+jest.mock('@temporalio/workflow', () => {
+  class CancelledFailure extends Error {}
+  class ActivityFailure extends Error {
+    constructor(message: string, public cause?: Error) {
+      super(message);
+    }
+  }
+  class ChildWorkflowFailure extends ActivityFailure {}
+  class ApplicationFailure extends Error {
+    constructor(message: string, public type?: string) {
+      super(message);
+    }
+  }
+  class CancellationScope {
+    run<T>(fn: () => Promise<T>): Promise<T> {
+      return fn();
+    }
+    cancel(): void {
+      mockPending.splice(0).forEach(reject => reject(new CancelledFailure('cancelled')));
+    }
+    static nonCancellable<T>(fn: () => Promise<T>): Promise<T> {
+      return fn();
+    }
+  }
+
+  return {
+    proxyActivities: () => new Proxy({}, {
+      get: (_target, executor) => (...args: any[]) => mockActivity(executor, ...args)
+    }),
+    proxyLocalActivities: () => ({ runWorkflowHooks: (...args: any[]) => mockRunWorkflowHooks(...args) }),
+    defineQuery: (name: string) => name,
+    defineSignal: (name: string) => name,
+    setHandler: () => undefined,
+    condition: async (fn: () => boolean) => fn(),
+    sleep: (duration: any) => mockSleep(duration),
+    executeChild: (...args: any[]) => mockExecuteChild(...args),
+    workflowInfo: () => mockWorkflowInfo(),
+    isCancellation: (error: any) => error instanceof CancelledFailure,
+    CancellationScope,
+    CancelledFailure,
+    ActivityFailure,
+    ApplicationFailure,
+    ChildWorkflowFailure
+  };
+});
+
+/**
+ * An activity result that only settles when a scope is cancelled
+ */
+function pendingUntilCancelled(): Promise<never> {
+  return new Promise((_resolve, reject) => { mockPending.push(reject); });
+}
+
+const route = (functionName: string, extra: Partial<FunctionRoute> = {}): FunctionRoute => ({
+  functionName,
+  stage: 1,
+  taskQueue: 'xflow-stage1-queue',
+  executor: 'executeStage1Activity',
+  ...extra
+});
+
+function workflowInput(stages: WorkflowStage[], extra: Record<string, any> = {}): InternalWorkflowInput {
+  const functions = new Set(stages.map(stage => stage.function).filter(Boolean) as string[]);
+  const routes: Record<string, FunctionRoute> = {};
+  functions.forEach(name => { routes[name] = route(name); });
+
+  const { spec, ...rest } = extra;
+  return {
+    workflowId: 'order-1',
+    spec: { name: 'Order', stages, ...spec },
+    routes,
+    ...rest
+  };
+}
+
+function statusOf(output: { results: Array<{ stageId: string; status: string }> }): Record<string, string> {
+  return Object.fromEntries(output.results.map(result => [result.stageId, result.status]));
+}
+
+describe('Distributed Workflow', () => {
+  let calls: string[];
+
+  beforeEach(() => {
+    calls = [];
+    mockPending.length = 0;
+    mockActivity.mockReset();
+    mockRunWorkflowHooks.mockReset().mockResolvedValue(true);
+    mockSleep.mockReset().mockResolvedValue(undefined);
+    mockExecuteChild.mockReset();
+    mockWorkflowInfo.mockReset().mockReturnValue({ workflowId: 'xflow-order-1' });
+  });
+
+  /**
+   * Let activities fail when their function name is listed, and succeed with
+   * `<name>-result` otherwise
+   */
+  function runActivities(failing: string[] = []): void {
+    mockActivity.mockImplementation(async (_executor: string, functionName: string) => {
+      calls.push(functionName);
+      if (failing.includes(functionName)) {
+        throw new Error(`${functionName} broke`);
+      }
+      return `${functionName}-result`;
+    });
+  }
+
+  test('should run stages in dependency order and pass results downstream', async () => {
+    mockActivity.mockImplementation(async (executor: string, functionName: string, params: any) => {
+      calls.push(`${executor}:${functionName}`);
+      return functionName === 'validate' ? { userId: 'user_42' } : params;
+    });
+
+    const output = await executeDistributedWorkflow(workflowInput([
+      { id: 'validate', function: 'validate', params: { order: '${input.orderId}' } },
+      { id: 'charge', function: 'charge', params: { userId: { $ref: 'validate.result.userId' } }, dependsOn: ['validate'] }
+    ], { input: { orderId: 'A-1' } }));
+
+    expect(output.status).toBe('COMPLETED');
+    expect(calls).toEqual(['executeStage1Activity:validate', 'executeStage1Activity:charge']);
+    expect(output.results[1]).toMatchObject({ stageId: 'charge', result: { userId: 'user_42' }, executedBy: 'stage1' });
+  });
+
+  test('should report every lifecycle event to the workflow hooks', async () => {
+    runActivities();
+
+    await executeDistributedWorkflow(workflowInput([
+      { id: 'validate', function: 'validate', params: {} }
+    ], { spec: { version: '2' } }));
+
+    expect(mockRunWorkflowHooks.mock.calls.map(([event]) => [event.hook, event.stageId])).toEqual([
+      ['onWorkflowStart', undefined],
+      ['onStageStart', 'validate'],
+      ['onStageComplete', 'validate'],
+      ['onWorkflowComplete', undefined]
+    ]);
+    expect(mockRunWorkflowHooks.mock.calls[0][0]).toMatchObject({ workflowId: 'order-1', workflowName: 'Order', workflowVersion: '2' });
+  });
+
+  test('should stop reporting events when the run has no hooks', async () => {
+    runActivities();
+    mockRunWorkflowHooks.mockResolvedValue(false);
+
+    const output = await executeDistributedWorkflow(workflowInput([
+      { id: 'validate', function: 'validate', params: {} }
+    ]));
+
+    expect(output.status).toBe('COMPLETED');
+    expect(mockRunWorkflowHooks.mock.calls.map(([event]) => event.hook)).toEqual(['onWorkflowStart']);
+  });
+
+  test('should take the workflow ID of scheduled runs from the Temporal workflow ID', async () => {
+    runActivities();
+    mockWorkflowInfo.mockReturnValue({ workflowId: 'staging-nightly-report-2024-01-01T00:00:00Z' });
+
+    const output = await executeDistributedWorkflow(workflowInput([
+      { id: 'report', function: 'report', params: {} }
+    ], { workflowId: 'nightly-report', taskQueuePrefix: 'staging' }));
+
+    expect(output.workflowId).toBe('nightly-report-2024-01-01T00:00:00Z');
+    expect(mockActivity).toHaveBeenCalledWith(
+      'executeStage1Activity', 'report', {}, { workflowId: 'nightly-report-2024-01-01T00:00:00Z', stageId: 'report' }
+    );
+  });
+
+  test('should stop at the first failure in failFast mode', async () => {
+    runActivities(['validate']);
+
+    const output = await executeDistributedWorkflow(workflowInput([
+      { id: 'validate', function: 'validate', params: {} },
+      { id: 'charge', function: 'charge', params: {}, dependsOn: ['validate'] },
+      { id: 'audit', function: 'audit', params: {}, dependsOn: ['validate'] }
+    ]));
+
+    expect(output.status).toBe('FAILED');
+    expect(statusOf(output)).toEqual({ validate: 'FAILED', charge: 'FAILED', audit: 'FAILED' });
+    expect(output.results[0].error).toBe('validate broke');
+    expect(output.results[1]).toMatchObject({ executedBy: 'none', error: "Not executed: workflow stopped after stage 'validate' failed" });
+    expect(calls).toEqual(['validate']);
+  });
+
+  test('should keep running independent stages in continueIndependent mode', async () => {
+    runActivities(['charge']);
+
+    const output = await executeDistributedWorkflow(workflowInput([
+      { id: 'charge', function: 'charge', params: {} },
+      { id: 'receipt', function: 'receipt', params: {}, dependsOn: ['charge'] },
+      { id: 'audit', function: 'audit', params: {} },
+      { id: 'archive', function: 'archive', params: {}, dependsOn: ['audit'] }
+    ], { spec: { failureMode: 'continueIndependent' } }));
+
+    expect(output.status).toBe('FAILED');
+    expect(statusOf(output)).toEqual({ charge: 'FAILED', audit: 'COMPLETED', receipt: 'FAILED', archive: 'COMPLETED' });
+    expect(calls).toEqual(['charge', 'audit', 'archive']);
+  });
+
+  test('should report PARTIAL in allowPartial mode when something completed', async () => {
+    runActivities(['charge']);
+
+    const output = await executeDistributedWorkflow(workflowInput([
+      { id: 'charge', function: 'charge', params: {} },
+      { id: 'audit', function: 'audit', params: {} }
+    ], { spec: { failureMode: 'allowPartial' } }));
+
+    expect(output.status).toBe('PARTIAL');
+  });
+
+  test('should run dependents of a continueOnError stage and report PARTIAL', async () => {
+    runActivities(['enrich']);
+
+    const output = await executeDistributedWorkflow(workflowInput([
+      { id: 'enrich', function: 'enrich', params: {}, continueOnError: true },
+      { id: 'ship', function: 'ship', params: {}, dependsOn: ['enrich'] }
+    ]));
+
+    expect(output.status).toBe('PARTIAL');
+    expect(statusOf(output)).toEqual({ enrich: 'FAILED', ship: 'COMPLETED' });
+  });
+
+  test('should not tolerate a continueOnError stage blocked by a failed dependency', async () => {
+    runActivities(['charge']);
+
+    const output = await executeDistributedWorkflow(workflowInput([
+      { id: 'charge', function: 'charge', params: {} },
+      { id: 'audit', function: 'audit', params: {} },
+      { id: 'enrich', function: 'enrich', params: {}, dependsOn: ['charge'], continueOnError: true },
+      { id: 'ship', function: 'ship', params: {}, dependsOn: ['enrich'] }
+    ], { spec: { failureMode: 'continueIndependent' } }));
+
+    expect(output.status).toBe('FAILED');
+    expect(statusOf(output)).toMatchObject({ enrich: 'FAILED', ship: 'FAILED' });
+    expect(output.results.find(result => result.stageId === 'ship')!.error).toBe("Dependency stage 'enrich' failed");
+    expect(calls).toEqual(['charge', 'audit']);
+  });
+
+  test('should skip stages whose condition is not met and everything downstream of them', async () => {
+    runActivities();
+
+    const output = await executeDistributedWorkflow(workflowInput([
+      { id: 'gift', function: 'gift', params: {}, when: { $ref: 'input.isGift', equals: true } },
+      { id: 'wrap', function: 'wrap', params: {}, dependsOn: ['gift'] },
+      { id: 'ship', function: 'ship', params: {} }
+    ], { input: { isGift: false } }));
+
+    expect(output.status).toBe('COMPLETED');
+    expect(statusOf(output)).toEqual({ gift: 'SKIPPED', ship: 'COMPLETED', wrap: 'SKIPPED' });
+    expect(output.results.find(result => result.stageId === 'wrap')!.skipReason).toBe("Dependency stage 'gift' was skipped");
+    expect(calls).toEqual(['ship']);
+  });
+
+  test('should run map items at most maxConcurrency at a time and keep item order', async () => {
+    let running = 0;
+    let maxRunning = 0;
+    mockActivity.mockImplementation(async (_executor: string, _functionName: string, params: any) => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise(resolve => setTimeout(resolve, 0));
+      running--;
+      return params.sku.toLowerCase();
+    });
+
+    const output = await executeDistributedWorkflow(workflowInput([
+      {
+        id: 'reserve',
+        type: 'map',
+        function: 'reserve',
+        map: { items: ['A', 'B', 'C', 'D', 'E'], params: { sku: { $ref: 'item' } }, maxConcurrency: 2 }
+      }
+    ]));
+
+    expect(output.status).toBe('COMPLETED');
+    expect(output.results[0].result).toEqual(['a', 'b', 'c', 'd', 'e']);
+    expect(maxRunning).toBe(2);
+  });
+
+  test('should fail a map stage once more than maxFailures items failed', async () => {
+    mockActivity.mockImplementation(async (_executor: string, _functionName: string, params: any) => {
+      calls.push(params.sku);
+      if (params.sku !== 'A') {
+        throw new Error(`${params.sku} is out of stock`);
+      }
+      return params.sku;
+    });
+
+    const output = await executeDistributedWorkflow(workflowInput([
+      {
+        id: 'reserve',
+        type: 'map',
+        function: 'reserve',
+        map: { items: ['A', 'B', 'C', 'D'], params: { sku: { $ref: 'item' } }, maxConcurrency: 1, maxFailures: 1 }
+      }
+    ]));
+
+    expect(output.status).toBe('FAILED');
+    expect(output.results[0].error).toBe(
+      '2 item(s) failed, at most 1 allowed - item 1: B is out of stock; item 2: C is out of stock'
+    );
+    expect(calls).toEqual(['A', 'B', 'C']);
+  });
+
+  test('should compensate completed stages in reverse order after a failure', async () => {
+    runActivities(['ship']);
+
+    const input = workflowInput([
+      { id: 'reserve', function: 'reserve', params: { sku: 'A' } },
+      { id: 'charge', function: 'charge', params: {}, dependsOn: ['reserve'] },
+      { id: 'ship', function: 'ship', params: {}, dependsOn: ['charge'] }
+    ]);
+    input.routes.reserve.compensate = 'release';
+    input.routes.charge.compensate = 'refund';
+    input.routes.release = route('release');
+    input.routes.refund = route('refund');
+
+    const output = await executeDistributedWorkflow(input);
+
+    expect(output.status).toBe('FAILED');
+    expect(calls).toEqual(['reserve', 'charge', 'ship', 'refund', 'release']);
+    expect(output.compensations.map(compensation => [compensation.stageId, compensation.status])).toEqual([
+      ['charge', 'COMPLETED'],
+      ['reserve', 'COMPLETED']
+    ]);
+    expect(mockActivity).toHaveBeenCalledWith(
+      'executeStage1Activity',
+      'release',
+      { params: { sku: 'A' }, result: 'reserve-result' },
+      { workflowId: 'order-1', stageId: 'reserve' }
+    );
+  });
+
+  test('should compensate each successful item of a map stage that failed', async () => {
+    mockActivity.mockImplementation(async (_executor: string, functionName: string, params: any) => {
+      calls.push(`${functionName}:${params.sku}`);
+      if (params.sku === 'C') {
+        throw new Error('C is out of stock');
+      }
+      return { id: `res-${params.sku}` };
+    });
+
+    const input = workflowInput([
+      {
+        id: 'reserve',
+        type: 'map',
+        function: 'reserve',
+        map: { items: ['A', 'B', 'C'], params: { sku: { $ref: 'item' } }, maxConcurrency: 1 },
+        compensate: { function: 'release', params: { sku: { $ref: 'item' }, id: { $ref: 'reserve.result.id' } } }
+      }
+    ]);
+    input.routes.release = route('release');
+
+    const output = await executeDistributedWorkflow(input);
+
+    expect(output.status).toBe('FAILED');
+    expect(calls).toEqual(['reserve:A', 'reserve:B', 'reserve:C', 'release:B', 'release:A']);
+    expect(mockActivity).toHaveBeenCalledWith(
+      'executeStage1Activity', 'release', { sku: 'B', id: 'res-B' }, { workflowId: 'order-1', stageId: 'reserve' }
+    );
+    expect(output.compensations.map(compensation => [compensation.itemIndex, compensation.status])).toEqual([
+      [1, 'COMPLETED'],
+      [0, 'COMPLETED']
+    ]);
+  });
+
+  test('should pass each map item its own params and result by default', async () => {
+    runActivities(['ship']);
+
+    const input = workflowInput([
+      { id: 'reserve', type: 'map', function: 'reserve', map: { items: ['A', 'B'], params: { sku: { $ref: 'item' } } } },
+      { id: 'ship', function: 'ship', params: {}, dependsOn: ['reserve'] }
+    ]);
+    input.routes.reserve.compensate = 'release';
+    input.routes.release = route('release');
+
+    await executeDistributedWorkflow(input);
+
+    const releases = mockActivity.mock.calls.filter(([, functionName]) => functionName === 'release');
+    expect(releases.map(([, , params]) => params)).toEqual([
+      { params: { sku: 'B' }, result: 'reserve-result' },
+      { params: { sku: 'A' }, result: 'reserve-result' }
+    ]);
+  });
+
+  test('should fail a child workflow stage with the errors of the failed child stages', async () => {
+    runActivities();
+    mockExecuteChild.mockResolvedValue({
+      status: 'FAILED',
+      results: [
+        { stageId: 'email', status: 'COMPLETED', result: 'sent', executedBy: 'stage1' },
+        { stageId: 'sms', status: 'FAILED', error: 'no phone number', executedBy: 'stage1' },
+        { stageId: 'log', status: 'FAILED', error: "Dependency stage 'sms' failed", executedBy: 'none' }
+      ]
+    });
+
+    const output = await executeDistributedWorkflow(workflowInput([
+      {
+        id: 'notify',
+        type: 'workflow',
+        workflow: { name: 'Notify', stages: [{ id: 'email', function: 'email', params: {} }] },
+        params: { orderId: '${input.orderId}' }
+      }
+    ], { input: { orderId: 'A-1' } }));
+
+    expect(output.status).toBe('FAILED');
+    expect(output.results[0]).toMatchObject({
+      status: 'FAILED',
+      executedBy: 'child-workflow',
+      error: "Child workflow 'Notify' failed - sms: no phone number"
+    });
+    expect(output.results[0].childResults).toHaveLength(3);
+    expect(mockExecuteChild.mock.calls[0][1]).toMatchObject({
+      workflowId: 'xflow-order-1-notify',
+      args: [{ workflowId: 'order-1-notify', input: { orderId: 'A-1' } }]
+    });
+  });
+
+  test('should wait on a timer and report how long it waited', async () => {
+    runActivities();
+
+    const output = await executeDistributedWorkflow(workflowInput([
+      { id: 'cooldown', type: 'timer', timer: { duration: '10 minutes' } }
+    ]));
+
+    expect(output.status).toBe('COMPLETED');
+    expect(mockSleep).toHaveBeenCalledWith('10 minutes');
+    expect(output.results[0]).toMatchObject({ executedBy: 'timer', result: { waitedMs: expect.any(Number) } });
+  });
+
+  test('should ignore the cancelled deadline timer when the stages finish in time', async () => {
+    runActivities();
+    mockSleep.mockImplementation(() => pendingUntilCancelled());
+
+    const output = await executeDistributedWorkflow(workflowInput([
+      { id: 'quick', function: 'quick', params: {} }
+    ], { deadline: '1 minute' }));
+
+    expect(output.status).toBe('COMPLETED');
+    expect(output.deadlineExceeded).toBe(false);
+    expect(mockSleep).toHaveBeenCalledWith('1 minute');
+  });
+
+  test('should cut off running and pending stages when the deadline passes', async () => {
+    mockActivity.mockImplementation((_executor: string, functionName: string) => {
+      calls.push(functionName);
+      return functionName === 'slow' ? pendingUntilCancelled() : Promise.resolve(`${functionName}-result`);
+    });
+    // The deadline timer fires once the stages are running
+    mockSleep.mockImplementation(() => new Promise(resolve => setTimeout(resolve, 0)));
+
+    const output = await executeDistributedWorkflow(workflowInput([
+      { id: 'quick', function: 'quick', params: {} },
+      { id: 'slow', function: 'slow', params: {} },
+      { id: 'ship', function: 'ship', params: {}, dependsOn: ['slow'] }
+    ], { deadline: '1 minute' }));
+
+    expect(output.status).toBe('FAILED');
+    expect(output.deadlineExceeded).toBe(true);
+    expect(statusOf(output)).toEqual({ quick: 'COMPLETED', slow: 'CANCELLED', ship: 'CANCELLED' });
+    expect(output.results.find(result => result.stageId === 'ship')!.error).toBe('Not started before the workflow deadline');
+    expect(calls).toEqual(['quick', 'slow']);
+  });
+});
@@ -0,0 +1,58 @@
+import { resolveParams, ReferenceScope } from '../src/core/param-resolver';
+
+describe('Param Resolver', () => {
+  const scope: ReferenceScope = {
+    stages: {
+      validate: { result: { userId: 'user_42', tags: ['vip', 'beta'] } },
+      price: { result: { amount: 99.5 } }
+    }
+  };
+
+  test('should resolve $ref objects', () => {
+    const params = resolveParams({ userId: { $ref: 'validate.result.userId' } }, scope, ['validate']);
+    expect(params).toEqual({ userId: 'user_42' });
+  });
+
+  test('should keep value types for whole-string templates', () => {
+    const params = resolveParams({ amount: '${stages.price.result.amount}' }, scope, ['price']);
+    expect(params.amount).toBe(99.5);
+  });
+
+  test('should interpolate templates embedded in strings', () => {
+    const params = resolveParams(
+      { note: 'User ${validate.result.userId} paid ${stages.price.result.amount}' },
+      scope,
+      ['validate', 'price']
+    );
+    expect(params.note).toBe('User user_42 paid 99.5');
+  });
+
+  test('should resolve nested params and array indexes', () => {
+    const params = resolveParams(
+      { user: { firstTag: { $ref: 'validate.result.tags[0]' } }, list: ['${validate.result.tags.1}'] },
+      scope,
+      ['validate']
+    );
+    expect(params).toEqual({ user: { firstTag: 'vip' }, list: ['beta'] });
+  });
+
+  test('should reject references to stages outside dependsOn', () => {
+    expect(() => resolveParams({ userId: { $ref: 'validate.result.userId' } }, scope, ['price']))
+      .toThrow("Cannot resolve reference 'validate.result.userId' at params.userId: stage 'validate' is not listed in dependsOn");
+  });
+
+  test('should reject missing properties', () => {
+    expect(() => resolveParams({ email: { $ref: 'validate.result.email' } }, scope, ['validate']))
+      .toThrow("'validate.result' has no property 'email'");
+  });
+
+  test('should resolve local names such as map items before stage IDs', () => {
+    const itemScope: ReferenceScope = { ...scope, locals: { item: { sku: 'A-1' }, index: 2 } };
+    const params = resolveParams(
+      { sku: { $ref: 'item.sku' }, label: 'Line ${index} for ${validate.result.userId}' },
+      itemScope,
+      ['validate']
+    );
+    expect(params).toEqual({ sku: 'A-1', label: 'Line 2 for user_42' });
+  });
+});
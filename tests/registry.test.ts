@@ -1,4 +1,6 @@
+import { z } from 'zod';
 import { registry } from '../src/core/registry';
+import { WorkerStage, XFlowExecutionContext } from '../src/types/index';
 
 describe('XFlow Registry', () => {
   beforeEach(() => {
@@ -98,4 +100,131 @@ describe('XFlow Registry', () => {
     expect(stats.byStage.stage2).toBe(2);
     expect(stats.byStage.stage3).toBe(0);
   });
-}); 
\ No newline at end of file
+
+  test('should include timeout and retry settings in function routes', () => {
+    const mockFunction = async (data: any) => ({ result: 'charged' });
+
+    registry.register('chargeCard', 2, mockFunction, {
+      stage: 2,
+      name: 'chargeCard',
+      timeout: '30 seconds',
+      heartbeatTimeout: '10 seconds',
+      retry: { maxAttempts: 3, nonRetryableErrors: ['CardDeclinedError'] }
+    });
+
+    const route = registry.getFunctionRoute('chargeCard');
+    expect(route).toEqual({
+      functionName: 'chargeCard',
+      stage: 2,
+      taskQueue: 'xflow-stage2-queue',
+      executor: 'executeStage2Activity',
+      timeout: '30 seconds',
+      scheduleToCloseTimeout: undefined,
+      heartbeatTimeout: '10 seconds',
+      retry: { maxAttempts: 3, nonRetryableErrors: ['CardDeclinedError'] }
+    });
+    expect(registry.getFunctionRoute('chargeCard', 'staging')?.taskQueue).toBe('staging-stage2-queue');
+    expect(registry.getFunctionRoute('missingFunction')).toBeNull();
+  });
+
+  test('should validate params and results against function schemas', async () => {
+    const mockFunction = async (data: any) => ({ sent: data.email === 'a@b.com' ? 'yes' : true });
+
+    registry.register('sendEmail', 3, mockFunction, {
+      stage: 3,
+      name: 'sendEmail',
+      input: z.object({ email: z.string().email() }),
+      output: z.object({ sent: z.boolean() })
+    });
+
+    const activities = registry.generateActivitiesForStage(3);
+
+    await expect(activities.executeStage3Activity('sendEmail', { email: 'nope' }))
+      .rejects.toMatchObject({ type: 'XFlowValidationError', nonRetryable: true });
+    await expect(activities.executeStage3Activity('sendEmail', { email: 'a@b.com' }))
+      .rejects.toThrow("Output validation failed for 'sendEmail': sent: Expected boolean, received string");
+    await expect(activities.executeStage3Activity('sendEmail', { email: 'c@d.com' }))
+      .resolves.toEqual({ sent: true });
+  });
+
+  test('should run function hooks with workflow and stage ids on workers', async () => {
+    const onSuccess = jest.fn();
+    const onFinish = jest.fn();
+    const mockFunction = async (data: any) => ({ charged: data.amount });
+
+    registry.register('chargeCard', 2, mockFunction, {
+      stage: 2,
+      name: 'chargeCard',
+      hooks: { onSuccess, onFinish }
+    });
+
+    const activities = registry.generateActivitiesForStage(2);
+    await activities.executeStage2Activity('chargeCard', { amount: 12 }, { workflowId: 'order-1234', stageId: 'charge' });
+
+    expect(onSuccess).toHaveBeenCalledWith(expect.objectContaining({
+      name: 'chargeCard',
+      stage: 2,
+      inputs: { arg0: { amount: 12 } },
+      output: { charged: 12 },
+      workflowId: 'order-1234',
+      stageId: 'charge'
+    }));
+    expect(onFinish).toHaveBeenCalledTimes(1);
+  });
+
+  test('should pass an execution context as the second argument', async () => {
+    const mockFunction = jest.fn(async (data: any, ctx: XFlowExecutionContext) => {
+      ctx.heartbeat({ row: 1 });
+      return { attempt: ctx.attempt, aborted: ctx.signal.aborted };
+    });
+
+    registry.register('importRows', 2, mockFunction, { stage: 2, name: 'importRows' });
+
+    const activities = registry.generateActivitiesForStage(2);
+    await expect(activities.executeStage2Activity('importRows', { file: 'a.csv' }, { workflowId: 'import-1', stageId: 'load' }))
+      .resolves.toEqual({ attempt: 1, aborted: false });
+    expect(mockFunction.mock.calls[0][1]).toMatchObject({ workflowId: 'import-1', stageId: 'load' });
+  });
+
+  test('should route functions on named worker pools', () => {
+    const mockFunction = async (data: any) => ({ pdf: 'report.pdf' });
+
+    registry.declarePools(['pdf-rendering']);
+    registry.register('renderInvoice', 'pdf-rendering', mockFunction, { stage: 'pdf-rendering', name: 'renderInvoice' });
+
+    expect(registry.getPools()).toEqual([1, 2, 3, 'pdf-rendering']);
+    expect(registry.getFunctionRoute('renderInvoice')).toMatchObject({
+      stage: 'pdf-rendering',
+      taskQueue: 'xflow-pdf-rendering-queue',
+      executor: 'executePool:pdf-rendering'
+    });
+    expect(registry.generateActivitiesForStage('pdf-rendering')).toHaveProperty(['executePool:pdf-rendering']);
+    expect(registry.getStats().byStage).toEqual({ stage1: 0, stage2: 0, stage3: 0, 'pdf-rendering': 1 });
+  });
+
+  test('should reject invalid worker pools', () => {
+    expect(() => registry.declarePools(['PDF Rendering'])).toThrow("Invalid worker pool name 'PDF Rendering'");
+    expect(() => registry.declarePools(['stage4'])).toThrow("Invalid worker pool name 'stage4'");
+    expect(() => registry.register('tooFar', 4 as WorkerStage, async () => ({}), { stage: 4 as WorkerStage }))
+      .toThrow('Invalid stage: 4. Must be 1, 2, 3 or the name of a worker pool.');
+  });
+
+  test('should check static stage params against input schemas', () => {
+    const mockFunction = async (data: any) => ({ ok: true });
+
+    registry.register('chargeCard', 2, mockFunction, {
+      stage: 2,
+      name: 'chargeCard',
+      input: z.object({ amount: z.number() })
+    });
+
+    const issues = registry.validateStageParams([
+      { id: 'charge', function: 'chargeCard', params: { amount: '12' } },
+      { id: 'chargeLater', function: 'chargeCard', params: { amount: { $ref: 'price.result.total' } } }
+    ]);
+
+    expect(issues).toEqual([
+      { path: 'stages[0].params.amount', message: "Expected number, received string (input schema of 'chargeCard')" }
+    ]);
+  });
+});
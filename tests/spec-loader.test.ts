@@ -0,0 +1,97 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { loadWorkflowSpec } from '../src/core/spec-loader';
+
+describe('Workflow File Loader', () => {
+  let dir: string;
+
+  const writeFile = (name: string, content: string) => {
+    const filePath = path.join(dir, name);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'xflow-specs-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('should load YAML with includes and input substitution', () => {
+    writeFile('fragments/notify.yaml', [
+      '- id: email',
+      '  function: sendEmail',
+      '  dependsOn: [pay]',
+      '  params:',
+      '    template: receipt-{{ inputs.region }}',
+      '    transactionId: ${pay.result.transactionId}'
+    ].join('\n'));
+    const filePath = writeFile('order.yaml', [
+      'name: Order Processing',
+      'inputs:',
+      '  region: { default: eu }',
+      '  maxAmount: {}',
+      'stages:',
+      '  - id: pay',
+      '    function: processPayment',
+      '    params: { limit: "{{inputs.maxAmount}}" }',
+      '  - $include: ./fragments/notify.yaml'
+    ].join('\n'));
+
+    const spec = loadWorkflowSpec(filePath, { inputs: { maxAmount: 500 } });
+
+    expect(spec).toEqual({
+      name: 'Order Processing',
+      stages: [
+        { id: 'pay', function: 'processPayment', params: { limit: 500 } },
+        {
+          id: 'email',
+          function: 'sendEmail',
+          dependsOn: ['pay'],
+          params: { template: 'receipt-eu', transactionId: '${pay.result.transactionId}' }
+        }
+      ]
+    });
+  });
+
+  test('should load JSON and report missing inputs and invalid specs', () => {
+    const filePath = writeFile('refund.json', JSON.stringify({
+      name: 'Refund',
+      inputs: { reason: {} },
+      stages: [{ id: 'refund', function: 'refundPayment', params: { reason: '{{ inputs.reason }}' }, dependsOn: ['pay'] }]
+    }));
+
+    expect(() => loadWorkflowSpec(filePath)).toThrow("Missing inputs for workflow file '" + filePath + "': reason");
+    expect(() => loadWorkflowSpec(filePath, { inputs: { reason: 'damaged' } }))
+      .toThrow("stages[0].dependsOn[0]: unknown stage 'pay'");
+  });
+
+  test('should reject templates that do not name an input and inputs with runtime references', () => {
+    const filePath = writeFile('refund.yaml', [
+      'name: Refund',
+      'inputs:',
+      '  reason: {}',
+      'stages:',
+      '  - id: refund',
+      '    function: refundPayment',
+      '    params: { reason: "{{ input.reason }}" }'
+    ].join('\n'));
+
+    expect(() => loadWorkflowSpec(filePath, { inputs: { reason: 'damaged' } }))
+      .toThrow("Workflow file template '{{ input.reason }}' must name an input as '{{ inputs.<name> }}'");
+    expect(() => loadWorkflowSpec(filePath, { inputs: { reason: { note: '${input.secret}' } } }))
+      .toThrow(`Inputs for workflow file '${filePath}' must not contain '\${': reason`);
+  });
+
+  test('should reject include cycles', () => {
+    writeFile('a.yaml', '- $include: ./b.yaml');
+    writeFile('b.yaml', '- $include: ./a.yaml');
+    const filePath = writeFile('main.yaml', 'name: Loop\nstages:\n  - $include: ./a.yaml');
+
+    expect(() => loadWorkflowSpec(filePath)).toThrow('includes itself');
+  });
+});
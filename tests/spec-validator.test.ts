@@ -0,0 +1,283 @@
+import { validateWorkflowSpec, validateStartOptions } from '../src/core/spec-validator';
+import { WorkflowSpec } from '../src/types/index';
+
+describe('Workflow Spec Validation', () => {
+  test('should accept a valid spec', () => {
+    const spec: WorkflowSpec = {
+      name: 'Order Processing',
+      stages: [
+        { id: 'validate', function: 'validateUser', params: { email: 'a@b.com' } },
+        {
+          id: 'pay',
+          function: 'processPayment',
+          params: { userId: { $ref: 'validate.result.userId' }, orderId: '${input.orderId}' },
+          dependsOn: ['validate'],
+          when: { $ref: 'validate.result.valid', equals: true }
+        }
+      ]
+    };
+
+    expect(validateWorkflowSpec(spec)).toEqual({ valid: true, issues: [] });
+  });
+
+  test('should report every problem with its path', () => {
+    const spec: WorkflowSpec = {
+      name: 'Broken',
+      stages: [
+        { id: 'validate', function: 'validateUser', params: {} },
+        { id: 'validate', function: 'validateOrder', params: {} },
+        { id: 'ship', function: 'shipOrder', params: {}, dependsOn: ['ship'] },
+        { id: 'notify', function: 'notify', params: { txn: '${pay.result.id}' }, dependsOn: ['pay'] }
+      ]
+    };
+
+    const { valid, issues } = validateWorkflowSpec(spec);
+
+    expect(valid).toBe(false);
+    expect(issues).toEqual(expect.arrayContaining([
+      { path: 'stages[1].id', message: "duplicate stage id 'validate'" },
+      { path: 'stages[2].dependsOn[0]', message: "stage 'ship' depends on itself" },
+      { path: 'stages[3].dependsOn[0]', message: "unknown stage 'pay'" }
+    ]));
+  });
+
+  test('should detect dependency cycles', () => {
+    const spec: WorkflowSpec = {
+      name: 'Cyclic',
+      stages: [
+        { id: 'a', function: 'f', params: {}, dependsOn: ['c'] },
+        { id: 'b', function: 'f', params: {}, dependsOn: ['a'] },
+        { id: 'c', function: 'f', params: {}, dependsOn: ['b'] }
+      ]
+    };
+
+    const { issues } = validateWorkflowSpec(spec);
+
+    expect(issues).toEqual([
+      { path: 'stages[1].dependsOn', message: 'circular dependency: a -> c -> b -> a' }
+    ]);
+  });
+
+  test('should reject references to stages outside dependsOn', () => {
+    const spec: WorkflowSpec = {
+      name: 'Loose reference',
+      stages: [
+        { id: 'validate', function: 'validateUser', params: {} },
+        { id: 'pay', function: 'processPayment', params: { user: { id: { $ref: 'validate.result.userId' } } } }
+      ]
+    };
+
+    expect(validateWorkflowSpec(spec).issues).toEqual([
+      {
+        path: 'stages[1].params.user.id',
+        message: "reference 'validate.result.userId' must point at a stage listed in dependsOn"
+      }
+    ]);
+  });
+
+  test('should require the settings of each stage type', () => {
+    const spec: WorkflowSpec = {
+      name: 'Approval',
+      stages: [
+        { id: 'prepare', params: {} },
+        { id: 'approve', type: 'waitForSignal', dependsOn: ['prepare'] }
+      ]
+    };
+
+    expect(validateWorkflowSpec(spec).issues).toEqual([
+      { path: 'stages[0].function', message: 'function stages must name a function' },
+      { path: 'stages[1].signal', message: 'waitForSignal stages must define a signal' }
+    ]);
+  });
+
+  test('should reject stages waiting for the same signal', () => {
+    const spec: WorkflowSpec = {
+      name: 'Two Step Approval',
+      stages: [
+        { id: 'manager', type: 'waitForSignal', signal: { name: 'approval' } },
+        { id: 'director', type: 'waitForSignal', signal: { name: 'approval' }, dependsOn: ['manager'] }
+      ]
+    };
+
+    expect(validateWorkflowSpec(spec).issues).toEqual([
+      { path: 'stages[1].signal.name', message: "duplicate signal name 'approval'" }
+    ]);
+  });
+
+  test('should let compensation params reference the compensated stage', () => {
+    const spec: WorkflowSpec = {
+      name: 'Refunds',
+      stages: [
+        { id: 'validate', function: 'validateUser', params: {} },
+        {
+          id: 'pay',
+          function: 'processPayment',
+          params: {},
+          dependsOn: ['validate'],
+          compensate: {
+            function: 'refundPayment',
+            params: { transactionId: { $ref: 'pay.result.transactionId' }, reason: '${ship.result.error}' }
+          }
+        }
+      ]
+    };
+
+    expect(validateWorkflowSpec(spec).issues).toEqual([
+      {
+        path: 'stages[1].compensate.params.reason',
+        message: "reference 'ship.result.error' must point at this stage or a stage listed in dependsOn"
+      }
+    ]);
+  });
+
+  test('should reject stage ids that clash with reference names', () => {
+    const spec: WorkflowSpec = {
+      name: 'Orders',
+      stages: [
+        { id: 'input', function: 'loadOrder', params: {} },
+        { id: 'item', function: 'loadCart', params: {} },
+        { id: 'ship', function: 'shipOrder', params: { cart: { $ref: 'item.result' } }, dependsOn: ['item'] },
+        {
+          id: 'reserve',
+          type: 'map',
+          function: 'reserveItem',
+          map: { items: { $ref: 'item.result.lines' }, params: { sku: { $ref: 'item.sku' } } },
+          dependsOn: ['item']
+        }
+      ]
+    };
+
+    expect(validateWorkflowSpec(spec).issues).toEqual([
+      { path: 'stages[0].id', message: "stage id 'input' is reserved for the workflow input" },
+      {
+        path: 'stages[3].dependsOn[0]',
+        message: "map stages cannot depend on a stage with id 'item', which map params use for the current item"
+      }
+    ]);
+  });
+
+  test('should let compensation params of map stages reference the compensated item', () => {
+    const spec: WorkflowSpec = {
+      name: 'Reservations',
+      stages: [{
+        id: 'reserve',
+        type: 'map',
+        function: 'reserveItem',
+        map: { items: ['A-1', 'B-2'], params: { sku: { $ref: 'item' } } },
+        compensate: {
+          function: 'releaseItem',
+          params: { sku: { $ref: 'item' }, position: '${index}', reservationId: { $ref: 'reserve.result.id' } }
+        }
+      }]
+    };
+
+    expect(validateWorkflowSpec(spec).issues).toEqual([]);
+  });
+
+  test('should accept failure policies', () => {
+    const spec: WorkflowSpec = {
+      name: 'Best effort',
+      failureMode: 'allowPartial',
+      stages: [
+        { id: 'charge', function: 'processPayment', params: {} },
+        { id: 'email', function: 'sendEmail', params: {}, continueOnError: true }
+      ]
+    };
+
+    expect(validateWorkflowSpec(spec).valid).toBe(true);
+    expect(validateWorkflowSpec({ ...spec, failureMode: 'ignore' } as any).issues).toEqual([
+      expect.objectContaining({ path: 'failureMode' })
+    ]);
+  });
+
+  test('should check map stage items and per-item params', () => {
+    const spec: WorkflowSpec = {
+      name: 'Reserve stock',
+      stages: [
+        { id: 'cart', function: 'loadCart', params: {} },
+        {
+          id: 'reserve',
+          type: 'map',
+          function: 'reserveInventory',
+          dependsOn: ['cart'],
+          map: {
+            items: { $ref: 'cart.result.items' },
+            params: { sku: { $ref: 'item.sku' }, position: '${index}', note: '${pricing.result.note}' },
+            maxConcurrency: 5
+          }
+        },
+        { id: 'broken', type: 'map', params: {} }
+      ]
+    };
+
+    expect(validateWorkflowSpec(spec).issues).toEqual([
+      { path: 'stages[2].function', message: 'map stages must name a function' },
+      { path: 'stages[2].map', message: 'map stages must define map options' },
+      {
+        path: 'stages[1].map.params.note',
+        message: "reference 'pricing.result.note' must point at a stage listed in dependsOn"
+      }
+    ]);
+  });
+
+  test('should check timer stages', () => {
+    const spec: WorkflowSpec = {
+      name: 'Follow-up',
+      stages: [
+        { id: 'confirm', function: 'confirmOrder', params: {} },
+        { id: 'wait', type: 'timer', dependsOn: ['confirm'], timer: { until: '${confirm.result.followUpAt}' } },
+        { id: 'cool-down', type: 'timer', timer: { duration: '24 hours', until: 0 } },
+        { id: 'remind', type: 'timer', timer: { until: { $ref: 'confirm.result.remindAt' } } }
+      ]
+    };
+
+    expect(validateWorkflowSpec(spec).issues).toEqual([
+      { path: 'stages[2].timer', message: 'timer must set exactly one of duration and until' },
+      {
+        path: 'stages[3].timer.until',
+        message: "reference 'confirm.result.remindAt' must point at a stage listed in dependsOn"
+      }
+    ]);
+  });
+
+  test('should check workflow timeouts and deadline', () => {
+    const spec = {
+      name: 'Nightly Report',
+      executionTimeout: '6 hours',
+      runTimeout: '',
+      deadline: 30,
+      stages: [{ id: 'report', function: 'buildReport', params: {}, timeout: '5 minits' }]
+    } as unknown as WorkflowSpec;
+
+    expect(validateWorkflowSpec(spec).issues).toEqual([
+      { path: 'runTimeout', message: 'duration must not be empty' },
+      { path: 'deadline', message: 'Expected string, received number' },
+      { path: 'stages[0].timeout', message: "invalid duration '5 minits' (expected e.g. '30 seconds' or '5m')" }
+    ]);
+  });
+
+  test('should check the timeouts and deadline of start options', () => {
+    expect(validateStartOptions({ runTimeout: '10m', deadline: new Date(Date.now() + 60000) })).toEqual([]);
+    expect(validateStartOptions({ executionTimeout: '-1 hour', deadline: 'soon' })).toEqual([
+      { path: 'executionTimeout', message: "invalid duration '-1 hour' (expected e.g. '30 seconds' or '5m')" },
+      { path: 'deadline', message: "invalid duration 'soon' (expected e.g. '30 seconds' or '5m')" }
+    ]);
+  });
+
+  test('should reject deadlines that outlast the run or execution timeout', () => {
+    const spec: WorkflowSpec = {
+      name: 'Nightly Batch',
+      runTimeout: '1 hour',
+      deadline: '6 hours',
+      stages: [{ id: 'report', function: 'buildReport', params: {} }]
+    };
+
+    expect(validateWorkflowSpec(spec).issues).toEqual([
+      { path: 'deadline', message: "deadline must pass before runTimeout '1 hour' ends the run" }
+    ]);
+    expect(validateStartOptions({ deadline: '2 hours' }, { executionTimeout: '90 minutes' })).toEqual([
+      { path: 'deadline', message: "deadline must pass before executionTimeout '90 minutes' ends the run" }
+    ]);
+    expect(validateStartOptions({ runTimeout: '8 hours' }, spec)).toEqual([]);
+  });
+});
@@ -0,0 +1,37 @@
+import { evaluateCondition } from '../src/core/stage-conditions';
+import { ReferenceScope } from '../src/core/param-resolver';
+
+describe('Stage Conditions', () => {
+  const scope: ReferenceScope = {
+    stages: {
+      pay: { result: { flagged: true, amount: 250, currency: 'EUR' } }
+    }
+  };
+  const allowed = ['pay'];
+
+  test('should treat template strings as truthiness checks', () => {
+    expect(evaluateCondition('${stages.pay.result.flagged}', scope, allowed)).toBe(true);
+  });
+
+  test('should compare referenced values', () => {
+    expect(evaluateCondition({ $ref: 'pay.result.flagged', equals: true }, scope, allowed)).toBe(true);
+    expect(evaluateCondition({ $ref: 'pay.result.amount', gt: 100, lte: 250 }, scope, allowed)).toBe(true);
+    expect(evaluateCondition({ $ref: 'pay.result.currency', in: ['USD', 'GBP'] }, scope, allowed)).toBe(false);
+  });
+
+  test('should combine conditions with all, any and not', () => {
+    const condition = {
+      all: [
+        { $ref: 'pay.result.flagged' },
+        { not: { $ref: 'pay.result.currency', equals: 'USD' } },
+        { any: [{ $ref: 'pay.result.amount', lt: 10 }, { $ref: 'pay.result.reviewed', exists: false }] }
+      ]
+    };
+    expect(evaluateCondition(condition, scope, allowed)).toBe(true);
+  });
+
+  test('should fail on references outside dependsOn', () => {
+    expect(() => evaluateCondition({ $ref: 'pay.result.flagged' }, scope, []))
+      .toThrow("stage 'pay' is not listed in dependsOn");
+  });
+});
@@ -0,0 +1,150 @@
+import { WorkflowExecutionAlreadyStartedError, WorkflowIdReusePolicy } from '@temporalio/client';
+import { z } from 'zod';
+import { ConnectionManager } from '../src/core/connection-manager';
+import { WorkflowExecutor } from '../src/core/workflow-executor';
+import { WorkflowIdConflictError } from '../src/core/errors';
+import { workflowRegistry } from '../src/core/workflow-registry';
+import { WorkflowSpec } from '../src/types/index';
+
+describe('Workflow Executor', () => {
+  const spec: WorkflowSpec = {
+    name: 'Cool Down',
+    stages: [{ id: 'wait', type: 'timer', timer: { duration: '1 minute' } }]
+  };
+
+  const workflowOutput = (status: string) => ({
+    workflowId: 'order-1234',
+    spec,
+    status,
+    deadlineExceeded: false,
+    results: [],
+    compensations: [],
+    startTime: new Date('2024-01-01T00:00:00.000Z'),
+    endTime: new Date('2024-01-01T00:01:00.000Z')
+  });
+
+  /**
+   * A client whose first start finds the ID taken by a run with the given
+   * Temporal status and output; a second start succeeds
+   */
+  function stubClient(temporalStatus: string, output: any = workflowOutput('COMPLETED')) {
+    const existing = {
+      workflowId: 'xflow-order-1234',
+      describe: jest.fn(async () => ({ status: { name: temporalStatus } })),
+      result: jest.fn(async () => output)
+    };
+    const restarted = {
+      workflowId: 'xflow-order-1234',
+      result: jest.fn(async () => workflowOutput('COMPLETED'))
+    };
+    const client = {
+      start: jest.fn()
+        .mockRejectedValueOnce(new WorkflowExecutionAlreadyStartedError('already started', 'xflow-order-1234', 'executeDistributedWorkflow'))
+        .mockResolvedValueOnce(restarted),
+      getHandle: jest.fn(() => existing)
+    };
+    return { client, existing, restarted };
+  }
+
+  function createExecutor(client: unknown): WorkflowExecutor {
+    const executor = new WorkflowExecutor(new ConnectionManager({ temporalAddress: 'localhost:7233' }));
+    (executor as any).client = client;
+    return executor;
+  }
+
+  test('should attach to the existing run and return its result', async () => {
+    const { client, existing } = stubClient('RUNNING', workflowOutput('PARTIAL'));
+    const executor = createExecutor(client);
+
+    const handle = await executor.start('order-1234', spec, { idConflictPolicy: 'attach' });
+    const result = await handle.result();
+
+    expect(client.getHandle).toHaveBeenCalledWith('xflow-order-1234');
+    expect(client.start).toHaveBeenCalledTimes(1);
+    expect(existing.result).toHaveBeenCalled();
+    expect(result).toMatchObject({ workflowId: 'order-1234', status: 'PARTIAL', duration: 60000 });
+  });
+
+  test('should start again when the previous run completed with FAILED output', async () => {
+    const { client, restarted } = stubClient('COMPLETED', workflowOutput('FAILED'));
+    const executor = createExecutor(client);
+
+    const handle = await executor.start('order-1234', spec, { idConflictPolicy: 'allowIfFailed' });
+    await handle.result();
+
+    expect(client.start).toHaveBeenCalledTimes(2);
+    expect(client.start.mock.calls[1][1]).toMatchObject({
+      workflowId: 'xflow-order-1234',
+      workflowIdReusePolicy: WorkflowIdReusePolicy.ALLOW_DUPLICATE
+    });
+    expect(restarted.result).toHaveBeenCalled();
+  });
+
+  test('should start again when the previous run did not complete', async () => {
+    const { client, existing } = stubClient('TIMED_OUT');
+    const executor = createExecutor(client);
+
+    await executor.start('order-1234', spec, { idConflictPolicy: 'allowIfFailed' });
+
+    expect(client.start).toHaveBeenCalledTimes(2);
+    expect(existing.result).not.toHaveBeenCalled();
+  });
+
+  test('should not start again when the previous run is running or succeeded', async () => {
+    for (const [temporalStatus, status] of [['RUNNING', 'COMPLETED'], ['COMPLETED', 'PARTIAL']]) {
+      const { client } = stubClient(temporalStatus, workflowOutput(status));
+      const executor = createExecutor(client);
+
+      await expect(executor.start('order-1234', spec, { idConflictPolicy: 'allowIfFailed' }))
+        .rejects.toThrow("Workflow 'order-1234' already exists and its latest run did not fail");
+      expect(client.start).toHaveBeenCalledTimes(1);
+    }
+  });
+
+  test('should reject a taken workflow ID by default', async () => {
+    const { client } = stubClient('COMPLETED');
+    const executor = createExecutor(client);
+
+    const start = executor.start('order-1234', spec);
+
+    await expect(start).rejects.toBeInstanceOf(WorkflowIdConflictError);
+    await expect(start).rejects.toMatchObject({ workflowId: 'order-1234' });
+    expect(client.getHandle).toHaveBeenCalledWith('xflow-order-1234');
+  });
+
+  test('should not cap runs with a deadline at the default run timeout', () => {
+    const executor = createExecutor(stubClient('COMPLETED').client);
+    const batchSpec: WorkflowSpec = { ...spec, deadline: '6 hours' };
+
+    expect(executor.buildStartOptions('batch-1', batchSpec)).toMatchObject({
+      workflowRunTimeout: undefined,
+      workflowExecutionTimeout: undefined
+    });
+    expect(executor.buildStartOptions('batch-1', spec)).toMatchObject({ workflowRunTimeout: '1 hour' });
+  });
+
+  test('should check signal payloads against the registered spec version of the run', async () => {
+    workflowRegistry.clear();
+    workflowRegistry.register({
+      name: 'Approval',
+      stages: [{ id: 'approve', type: 'waitForSignal', signal: { name: 'approval', schema: z.object({ approved: z.boolean() }) } }]
+    }, '2');
+    const temporalHandle = {
+      describe: jest.fn(async () => ({
+        runId: 'run-1',
+        status: { name: 'RUNNING' },
+        memo: { xflowWorkflowName: 'Approval', xflowWorkflowVersion: '2' }
+      })),
+      signal: jest.fn()
+    };
+    const executor = createExecutor({ getHandle: jest.fn(() => temporalHandle) });
+
+    const handle = await executor.getHandle('approval-1');
+
+    await expect(handle.signal('approval', { approved: 'yes' })).rejects.toThrow("Invalid payload for signal 'approval'");
+    await handle.signal('approval', { approved: true, comment: 'ok' });
+    expect(temporalHandle.signal).toHaveBeenCalledTimes(1);
+    expect(temporalHandle.signal).toHaveBeenCalledWith('approval', { approved: true });
+    workflowRegistry.clear();
+  });
+});
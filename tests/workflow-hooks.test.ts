@@ -0,0 +1,136 @@
+import { workflowHooks, getHooksKey } from '../src/core/workflow-hooks';
+import { WorkflowSpec, XFlowWorkflowHookContext } from '../src/types/index';
+
+describe('Workflow Hooks', () => {
+  const childSpec: WorkflowSpec = {
+    name: 'Notify Customer',
+    stages: [{ id: 'email', function: 'sendEmail', params: {} }]
+  };
+
+  beforeEach(() => {
+    workflowHooks.clear();
+  });
+
+  test('should run global and spec hooks with ids and timings', async () => {
+    const calls: Array<[string, XFlowWorkflowHookContext]> = [];
+    workflowHooks.add({ onStageComplete: ctx => { calls.push(['global', ctx]); } });
+    workflowHooks.addSpecHooks('run:order-1234', {
+      name: 'Order',
+      hooks: { onStageComplete: ctx => { calls.push(['order', ctx]); } },
+      stages: [{ id: 'notify', type: 'workflow', workflow: childSpec }]
+    });
+
+    await workflowHooks.run({
+      hook: 'onStageComplete',
+      workflowId: 'order-1234',
+      workflowName: 'Order',
+      hooksKey: 'run:order-1234',
+      stageId: 'notify',
+      startTime: new Date('2024-01-01T00:00:00.000Z'),
+      endTime: new Date('2024-01-01T00:00:01.500Z'),
+      status: 'COMPLETED'
+    });
+    await workflowHooks.run({
+      hook: 'onStageComplete',
+      workflowId: 'order-1234-notify',
+      workflowName: 'Notify Customer',
+      hooksKey: 'run:order-1234/notify',
+      stageId: 'email',
+      startTime: new Date()
+    });
+
+    expect(calls.map(([source, ctx]) => [source, ctx.workflowId, ctx.stageId])).toEqual([
+      ['global', 'order-1234', 'notify'],
+      ['order', 'order-1234', 'notify'],
+      ['global', 'order-1234-notify', 'email']
+    ]);
+    expect(calls[0][1].duration).toBe(1500);
+  });
+
+  test('should keep running hooks after one fails', async () => {
+    const onWorkflowFail = jest.fn();
+    workflowHooks.add({ onWorkflowFail: () => { throw new Error('pager down'); } });
+    workflowHooks.add({ onWorkflowFail });
+
+    await workflowHooks.run({
+      hook: 'onWorkflowFail',
+      workflowId: 'order-1234',
+      workflowName: 'Order',
+      startTime: new Date()
+    });
+
+    expect(onWorkflowFail).toHaveBeenCalledTimes(1);
+  });
+
+  test('should only run the spec hooks of the version that reported the event', async () => {
+    const calls: string[] = [];
+    const v1 = { ...childSpec, version: '1', hooks: { onWorkflowStart: () => { calls.push('v1'); } } };
+    const v2 = { ...childSpec, version: '2', hooks: { onWorkflowStart: () => { calls.push('v2'); } } };
+    workflowHooks.addSpecHooks(getHooksKey(v1, ''), v1);
+    workflowHooks.addSpecHooks(getHooksKey(v2, ''), v2);
+
+    await workflowHooks.run({
+      hook: 'onWorkflowStart',
+      workflowId: 'notify-1',
+      workflowName: 'Notify Customer',
+      workflowVersion: '2',
+      hooksKey: getHooksKey(v2, 'notify-1'),
+      startTime: new Date()
+    });
+
+    expect(calls).toEqual(['v2']);
+  });
+
+  test('should not run the hooks of another spec with the same name', async () => {
+    const onWorkflowStart = jest.fn();
+    const withHooks: WorkflowSpec = { ...childSpec, hooks: { onWorkflowStart } };
+    workflowHooks.addRunHooks(getHooksKey(withHooks, 'notify-1'), withHooks);
+    workflowHooks.addRunHooks(getHooksKey(childSpec, 'notify-2'), childSpec);
+    const event = (workflowId: string) => ({
+      hook: 'onWorkflowStart' as const,
+      workflowId,
+      workflowName: 'Notify Customer',
+      hooksKey: getHooksKey(childSpec, workflowId),
+      startTime: new Date()
+    });
+
+    await workflowHooks.run(event('notify-2'));
+    expect(onWorkflowStart).not.toHaveBeenCalled();
+
+    // The same key prepared again without hooks clears them
+    workflowHooks.addSpecHooks(getHooksKey(childSpec, 'notify-1'), childSpec);
+    await workflowHooks.run(event('notify-1'));
+    expect(onWorkflowStart).not.toHaveBeenCalled();
+  });
+
+  test('should drop the hooks of a run once it finished', async () => {
+    const onWorkflowComplete = jest.fn();
+    const spec: WorkflowSpec = { ...childSpec, hooks: { onWorkflowComplete } };
+    workflowHooks.addRunHooks('run:notify-1', spec);
+    const finished = { hook: 'onWorkflowComplete' as const, workflowId: 'notify-1', workflowName: 'Notify Customer', hooksKey: 'run:notify-1', startTime: new Date() };
+
+    await workflowHooks.run(finished);
+    await workflowHooks.run(finished);
+
+    expect(onWorkflowComplete).toHaveBeenCalledTimes(1);
+    expect(onWorkflowComplete.mock.calls[0][0]).not.toHaveProperty('hooksKey');
+  });
+
+  test('should tell runs without hooks to stop reporting events', async () => {
+    const parentSpec: WorkflowSpec = {
+      name: 'Order',
+      stages: [{ id: 'notify', type: 'workflow', workflow: { ...childSpec, hooks: { onWorkflowStart: jest.fn() } } }]
+    };
+    workflowHooks.addRunHooks('run:order-1', parentSpec);
+    workflowHooks.addRunHooks('run:order-2', childSpec);
+    const started = (key: string) => ({ hook: 'onWorkflowStart' as const, workflowId: key, workflowName: 'Order', hooksKey: key, startTime: new Date() });
+
+    await expect(workflowHooks.run(started('run:order-2'))).resolves.toBe(false);
+    // The parent has no hooks of its own but must report its end to drop those of the child
+    await expect(workflowHooks.run(started('run:order-1'))).resolves.toBe(true);
+    await expect(workflowHooks.run(started('run:order-1/notify'))).resolves.toBe(true);
+
+    workflowHooks.add({});
+    await expect(workflowHooks.run(started('run:order-2'))).resolves.toBe(true);
+  });
+});
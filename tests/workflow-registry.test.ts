@@ -0,0 +1,68 @@
+import { workflowRegistry } from '../src/core/workflow-registry';
+import { WorkflowSpec } from '../src/types/index';
+
+describe('Workflow Registry', () => {
+  const notifySpec: WorkflowSpec = {
+    name: 'Notify Customer',
+    stages: [{ id: 'email', function: 'sendEmail', params: {} }]
+  };
+
+  beforeEach(() => {
+    workflowRegistry.clear();
+  });
+
+  test('should inline registered sub-workflows by name', () => {
+    workflowRegistry.register(notifySpec);
+
+    const resolved = workflowRegistry.resolve({
+      name: 'Order',
+      stages: [
+        { id: 'ship', function: 'shipOrder', params: {} },
+        { id: 'notify', type: 'workflow', workflow: 'Notify Customer', dependsOn: ['ship'] }
+      ]
+    });
+
+    expect(resolved.stages[1].workflow).toEqual({ ...notifySpec, version: '1' });
+  });
+
+  test('should keep versions side by side and default to the latest', () => {
+    workflowRegistry.register(notifySpec, '9');
+    workflowRegistry.register({ ...notifySpec, description: 'SMS too' }, '10');
+
+    expect(workflowRegistry.get('Notify Customer')?.version).toBe('10');
+    expect(workflowRegistry.get('Notify Customer', '9')?.description).toBeUndefined();
+    expect(workflowRegistry.list()).toEqual([
+      { name: 'Notify Customer', description: 'SMS too', versions: ['9', '10'], latestVersion: '10' }
+    ]);
+    expect(() => workflowRegistry.register(notifySpec, '9')).toThrow('already registered');
+
+    const resolved = workflowRegistry.resolve({
+      name: 'Order',
+      stages: [{ id: 'notify', type: 'workflow', workflow: 'Notify Customer@9' }]
+    });
+    expect((resolved.stages[0].workflow as any).version).toBe('9');
+  });
+
+  test('should reject unknown and self-including workflows', () => {
+    workflowRegistry.register({
+      name: 'Loop',
+      stages: [{ id: 'again', type: 'workflow', workflow: 'Loop' }]
+    });
+
+    expect(() => workflowRegistry.resolve({
+      name: 'Order',
+      stages: [
+        { id: 'notify', type: 'workflow', workflow: 'Notify Everyone' },
+        { id: 'loop', type: 'workflow', workflow: 'Loop' }
+      ]
+    })).toThrow(
+      "stages[0].workflow: unknown workflow 'Notify Everyone'\n" +
+      "  stages[1].workflow.stages[0].workflow: workflow 'Loop' includes itself: Order -> Loop -> Loop"
+    );
+  });
+
+  test('should validate specs on registration', () => {
+    expect(() => workflowRegistry.register({ name: 'Empty', stages: [] }))
+      .toThrow('workflow must have at least one stage');
+  });
+});
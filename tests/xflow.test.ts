@@ -0,0 +1,50 @@
+import { XFlow } from '../src/core/xflow';
+import { WorkflowValidationError } from '../src/core/errors';
+import { WorkflowSpec } from '../src/types/index';
+
+describe('XFlow', () => {
+  test('should reject invalid roles and task queue prefixes', () => {
+    expect(() => new XFlow({ temporalAddress: 'localhost:7233', role: 'scheduler' as any }))
+      .toThrow("Invalid role 'scheduler'");
+    expect(() => new XFlow({ temporalAddress: 'localhost:7233', taskQueuePrefix: 'my queues' }))
+      .toThrow("Invalid taskQueuePrefix 'my queues'");
+  });
+
+  test('should report the role and the orchestration worker in the worker status', () => {
+    const xflow = new XFlow({
+      temporalAddress: 'localhost:7233',
+      taskQueuePrefix: 'staging',
+      pools: ['ml-scoring'],
+      role: 'orchestrator'
+    });
+
+    expect(xflow.getWorkerStatus()).toMatchObject({
+      role: 'orchestrator',
+      orchestrator: { running: false, taskQueue: 'staging-orchestration-queue' },
+      running: [],
+      stopped: [1, 2, 3, 'ml-scoring'],
+      total: 4
+    });
+  });
+
+  test('should reject invalid start options before contacting Temporal', async () => {
+    const xflow = new XFlow({ temporalAddress: 'localhost:7233' });
+    const spec: WorkflowSpec = {
+      name: 'Nightly Batch',
+      runTimeout: '2 hours',
+      stages: [{ id: 'wait', type: 'timer', timer: { duration: '1 minute' } }]
+    };
+    const initialize = jest.spyOn(xflow, 'initialize');
+
+    const run = xflow.executeWorkflow(spec, { deadline: '6 hours', executionTimeout: 'soon' });
+
+    await expect(run).rejects.toBeInstanceOf(WorkflowValidationError);
+    await expect(run).rejects.toMatchObject({
+      issues: [{ path: 'options.executionTimeout', message: "invalid duration 'soon' (expected e.g. '30 seconds' or '5m')" }]
+    });
+    await expect(xflow.startWorkflow(spec, { deadline: '6 hours' })).rejects.toMatchObject({
+      issues: [{ path: 'options.deadline', message: "deadline must pass before runTimeout '2 hours' ends the run" }]
+    });
+    expect(initialize).not.toHaveBeenCalled();
+  });
+});